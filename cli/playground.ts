@@ -15,7 +15,12 @@ import {
   isContentFile,
   ProviderInfo,
   DeviceFlowHelper,
+  Instructions,
+  renderRunSheetHtml,
+  renderRunSheetMarkdown,
+  renderRunSheetPdf,
 } from '../src/index.js';
+import { writeFile } from 'node:fs/promises';
 
 // Device flow helper for providers that support it
 const deviceFlowHelper = new DeviceFlowHelper();
@@ -32,6 +37,7 @@ import {
   showError,
   showInfo,
   sleep,
+  getMediaTypeIcon,
 } from './utils.js';
 
 // App state
@@ -360,7 +366,7 @@ async function browseContent(): Promise<void> {
  */
 async function handleContentSelection(items: ContentItem[]): Promise<void> {
   const choices: Array<{ name: string; value: string }> = items.map((item, i) => ({
-    name: `${i + 1}. ${isContentFolder(item) ? '📁' : item.mediaType === 'video' ? '🎬' : '🖼️'} ${item.title}`,
+    name: `${i + 1}. ${isContentFolder(item) ? '📁' : getMediaTypeIcon(item.mediaType)} ${item.title}`,
     value: String(i),
   }));
 
@@ -547,7 +553,9 @@ async function showPresentationsView(path: string, title: string): Promise<void>
   const spinner = ora('Loading presentations...').start();
 
   try {
-    const plan = await state.currentProvider.getPresentations(path, state.currentAuth);
+    const plan = state.currentProvider.getPresentations
+      ? await state.currentProvider.getPresentations(path, state.currentAuth)
+      : null;
     spinner.stop();
 
     if (!plan) {
@@ -635,6 +643,7 @@ async function showInstructionsView(path: string, title: string): Promise<void>
 async function handleInstructionsMenu(instructions: any): Promise<void> {
   const choices = [
     { name: '📋 View as JSON', value: 'json' },
+    { name: '🖨️  Save run sheet', value: 'runsheet' },
     { name: '← Back', value: 'back' },
     { name: '🏠 Main Menu', value: 'menu' },
   ];
@@ -650,6 +659,12 @@ async function handleInstructionsMenu(instructions: any): Promise<void> {
     return;
   }
 
+  if (action === 'runsheet') {
+    await saveRunSheet(instructions);
+    await handleInstructionsMenu(instructions);
+    return;
+  }
+
   if (action === 'back') {
     goBack();
     await browseContent();
@@ -659,6 +674,44 @@ async function handleInstructionsMenu(instructions: any): Promise<void> {
   // menu - return to main
 }
 
+/**
+ * Save a printable run sheet for the instructions as Markdown, HTML or PDF
+ */
+async function saveRunSheet(instructions: Instructions): Promise<void> {
+  const format = await select({
+    message: 'Format:',
+    choices: [
+      { name: 'PDF', value: 'pdf' },
+      { name: 'HTML', value: 'html' },
+      { name: 'Markdown', value: 'md' },
+    ],
+  });
+  const start = await input({ message: 'Service start time (HH:MM, blank to leave out clock times):', default: '' });
+  const slug = (instructions.name || 'run-sheet').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const file = await input({ message: 'Save to:', default: `${slug || 'run-sheet'}.${format}` });
+
+  let startTime: Date | undefined;
+  const match = start.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (match) {
+    startTime = new Date();
+    startTime.setHours(Number(match[1]), Number(match[2]), 0, 0);
+  }
+
+  const spinner = ora('Rendering run sheet...').start();
+  try {
+    const contents = format === 'pdf'
+      ? await renderRunSheetPdf(instructions, { startTime })
+      : format === 'html'
+        ? renderRunSheetHtml(instructions, { startTime })
+        : renderRunSheetMarkdown(instructions, { startTime });
+    await writeFile(file, contents);
+    spinner.succeed(`Saved run sheet to ${file}`);
+  } catch (error) {
+    spinner.stop();
+    showError(`Failed to save run sheet: ${error}`);
+  }
+}
+
 /**
  * Handle file selection
  */
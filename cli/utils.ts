@@ -3,11 +3,13 @@ import Table from 'cli-table3';
 import {
   ContentItem,
   ContentFile,
+  MediaType,
   Plan,
   Instructions,
   InstructionItem,
   ProviderInfo,
   isContentFolder,
+  InstructionTree,
 } from '../src/index.js';
 
 /**
@@ -34,6 +36,27 @@ function getItemTypeIcon(itemType?: string): string {
   }
 }
 
+/**
+ * Get an icon for a file's media type
+ */
+export function getMediaTypeIcon(mediaType: MediaType): string {
+  switch (mediaType) {
+    case 'video':
+      return '🎬';
+    case 'audio':
+      return '🎵';
+    case 'document':
+      return '📑';
+    case 'text':
+      return '📝';
+    case 'web':
+      return '🌐';
+    case 'image':
+    default:
+      return '🖼️';
+  }
+}
+
 /**
  * Display a table of content items (folders and files)
  */
@@ -50,11 +73,7 @@ export function displayContentTable(items: ContentItem[]): void {
   });
 
   items.forEach((item, i) => {
-    const icon = isContentFolder(item)
-      ? '📁'
-      : item.mediaType === 'video'
-        ? '🎬'
-        : '🖼️';
+    const icon = isContentFolder(item) ? '📁' : getMediaTypeIcon(item.mediaType);
     const type = isContentFolder(item) ? 'folder' : item.mediaType;
     table.push([String(i + 1), item.title, `${icon} ${type}`]);
   });
@@ -78,7 +97,7 @@ export function displayPlaylist(files: ContentFile[]): void {
   });
 
   files.forEach((file, i) => {
-    const icon = file.mediaType === 'video' ? '🎬' : '🖼️';
+    const icon = getMediaTypeIcon(file.mediaType);
     const url = file.url.length > 37 ? file.url.substring(0, 34) + '...' : file.url;
     const thumb = file.thumbnail
       ? (file.thumbnail.length > 27 ? file.thumbnail.substring(0, 24) + '...' : file.thumbnail)
@@ -124,15 +143,7 @@ export function displayInstructions(instructions: Instructions, isExpanded: bool
   const viewType = isExpanded ? 'Expanded Instructions' : 'Instructions';
   const venueName = instructions.name || 'Instructions';
 
-  const countItems = (items: InstructionItem[]): number => {
-    let count = items.length;
-    for (const item of items) {
-      if (item.children) count += countItems(item.children);
-    }
-    return count;
-  };
-
-  const totalItems = countItems(instructions.items);
+  const totalItems = InstructionTree.flatten(instructions).length;
 
   console.log(chalk.cyan('\n' + '═'.repeat(60)));
   console.log(chalk.bold(`  ${venueName} (${viewType})`));
@@ -15,7 +15,7 @@ import {
   retryAuth,
   deviceFlowHelper
 } from './auth';
-import { loadContent, viewAsPlaylist, /* viewAsPresentations, */ viewAsInstructions } from './api';
+import { loadContent, viewAsPlaylist, viewAsPresentations, viewAsInstructions } from './api';
 import { renderProviders, renderContent } from './views/common';
 import {
   renderPlaylistView,
@@ -456,7 +456,7 @@ function showVenueChoiceModal(folder: ContentFolder) {
   };
 
   const getPlaylistSource = () => caps?.instructions ? 'Instructions' : 'Playlist';
-  // const getPresentationsSource = () => caps?.instructions ? 'Instructions' : 'Playlist';
+  const getPresentationsSource = () => caps?.instructions ? 'Instructions' : 'Playlist';
   const getInstructionsSource = () => 'Playlist';
 
   const choiceHtml = `
@@ -467,6 +467,7 @@ function showVenueChoiceModal(folder: ContentFolder) {
         <p class="format-legend"><span class="native-badge">Native</span> = Direct provider support &nbsp; <span class="derived-badge">Derived</span> = Converted from another format</p>
         <div class="venue-choice-buttons">
           ${formatBtn('view-playlist-btn', '📋', 'Playlist', 'Simple list of media files', !!caps?.playlist, getPlaylistSource())}
+          ${formatBtn('view-presentations-btn', '🎬', 'Presentations', 'Structured sections with files', !!caps?.presentations, getPresentationsSource())}
           ${formatBtn('view-expanded-btn', '📚', 'Instructions', 'Full hierarchy with all actions', !!caps?.instructions, getInstructionsSource())}
         </div>
         <button id="venue-choice-cancel" class="cancel-btn">Cancel</button>
@@ -484,10 +485,10 @@ function showVenueChoiceModal(folder: ContentFolder) {
     handleViewAsPlaylist(folder);
   });
 
-  // document.getElementById('view-presentations-btn')!.addEventListener('click', () => {
-  //   closeVenueChoiceModal();
-  //   handleViewAsPresentations(folder);
-  // });
+  document.getElementById('view-presentations-btn')!.addEventListener('click', () => {
+    closeVenueChoiceModal();
+    handleViewAsPresentations(folder);
+  });
 
   document.getElementById('view-expanded-btn')!.addEventListener('click', () => {
     closeVenueChoiceModal();
@@ -524,16 +525,16 @@ async function handleViewAsPlaylist(folder: ContentFolder) {
   renderPlaylistView(result.playlist, result.meta);
 }
 
-// async function handleViewAsPresentations(folder: ContentFolder) {
-//   if (!elements) return;
+async function handleViewAsPresentations(folder: ContentFolder) {
+  if (!elements) return;
 
-//   const result = await viewAsPresentations(folder);
+  const result = await viewAsPresentations(folder);
 
-//   if (!result) return;
+  if (!result) return;
 
-//   updateBreadcrumb();
-//   renderPlanView(result.plan, result.meta);
-// }
+  updateBreadcrumb();
+  renderPlanView(result.plan, result.meta);
+}
 
 async function handleViewAsInstructions(folder: ContentFolder) {
   if (!elements) return;
@@ -1,7 +1,7 @@
 import { state, elements } from '../state';
 import { escapeHtml, renderJsonViewer } from '../utils';
 import { showStatus, showModal } from '../ui';
-import { getAvailableProviders, ContentItem, ContentFolder, ContentFile, isContentFolder, isContentFile } from '../../src';
+import { getAvailableProviders, ContentItem, ContentFolder, ContentFile, MediaType, isContentFolder, isContentFile } from '../../src';
 import type { ResolvedFormatMeta } from '../../src';
 
 /**
@@ -176,6 +176,23 @@ export function renderFolder(folder: ContentFolder): string {
   `;
 }
 
+const MEDIA_ICONS: Record<MediaType, string> = {
+  video: '&#127916;',
+  image: '&#128444;',
+  audio: '&#127925;',
+  document: '&#128209;',
+  text: '&#128221;',
+  web: '&#127760;',
+};
+
+/**
+ * Get the HTML entity icon for a media type
+ * @param mediaType - The file's media type
+ */
+export function mediaTypeIcon(mediaType: MediaType): string {
+  return MEDIA_ICONS[mediaType] || MEDIA_ICONS.image;
+}
+
 /**
  * Generate file card HTML
  * @param file - The file to render
@@ -183,7 +200,7 @@ export function renderFolder(folder: ContentFolder): string {
  */
 export function renderFile(file: ContentFile): string {
   const escapedTitle = escapeHtml(file.title);
-  const mediaIcon = file.mediaType === 'video' ? '&#127916;' : '&#128444;';
+  const mediaIcon = mediaTypeIcon(file.mediaType);
   const imageHtml = file.thumbnail
     ? `<img class="card-image" src="${escapeHtml(file.thumbnail)}" alt="${escapedTitle}" onerror="this.outerHTML='<div class=\\'card-image placeholder\\'>${mediaIcon}</div>'">`
     : `<div class="card-image placeholder">${mediaIcon}</div>`;
@@ -195,7 +212,7 @@ export function renderFile(file: ContentFile): string {
         <span class="media-badge ${file.mediaType}">${escapeHtml(file.mediaType)}</span>
       </div>
       <h3 class="card-title file-icon ${file.mediaType}">${escapedTitle}</h3>
-      <p class="card-subtitle">${file.mediaType === 'video' ? 'Video' : 'Image'}</p>
+      <p class="card-subtitle">${file.mediaType.charAt(0).toUpperCase() + file.mediaType.slice(1)}</p>
       <p class="file-url">${escapeHtml(file.url)}</p>
     </div>
   `;
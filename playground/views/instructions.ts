@@ -1,7 +1,7 @@
 import { state, elements } from '../state';
 import { escapeHtml, renderJsonViewer } from '../utils';
 import { showStatus } from '../ui';
-import { Instructions, InstructionItem } from '../../src';
+import { Instructions, InstructionItem, InstructionTree, renderRunSheetHtml, renderRunSheetMarkdown, renderRunSheetPdf } from '../../src';
 import type { ResolvedFormatMeta } from '../../src';
 import { renderFormatSourceBadge } from './common';
 
@@ -17,15 +17,7 @@ export function renderInstructionsView(instructions: Instructions, meta?: Resolv
   const viewType = 'Instructions';
   elements.browserTitle.textContent = `${escapeHtml(instructions.name || 'Instructions')} (${viewType})`;
 
-  const countItems = (items: InstructionItem[]): number => {
-    let count = items.length;
-    for (const item of items) {
-      if (item.children) count += countItems(item.children);
-    }
-    return count;
-  };
-
-  const totalItems = countItems(instructions.items);
+  const totalItems = InstructionTree.flatten(instructions).length;
 
   let html = `
     <div class="instructions-view">
@@ -34,6 +26,11 @@ export function renderInstructionsView(instructions: Instructions, meta?: Resolv
           <h2>${escapeHtml(instructions.name || 'Instructions')}</h2>
           ${meta ? renderFormatSourceBadge(meta) : ''}
           <p class="instructions-stats">${instructions.items.length} top-level items &bull; ${totalItems} total items</p>
+          <div class="run-sheet-actions">
+            <button class="run-sheet-btn" data-format="print">&#128424; Print Run Sheet</button>
+            <button class="run-sheet-btn" data-format="pdf">PDF</button>
+            <button class="run-sheet-btn" data-format="md">Markdown</button>
+          </div>
         </div>
       </div>
       <div class="instructions-tree">
@@ -101,6 +98,10 @@ export function renderInstructionsView(instructions: Instructions, meta?: Resolv
     elements.emptyEl.classList.add('hidden');
   }
 
+  elements.contentGrid.querySelectorAll('.run-sheet-btn').forEach(button => {
+    button.addEventListener('click', () => exportRunSheet(instructions, button.getAttribute('data-format') || 'print'));
+  });
+
   elements.contentGrid.querySelectorAll('.instruction-item').forEach(item => {
     item.addEventListener('click', (e) => {
       if ((e.target as HTMLElement).classList.contains('instruction-embed-link')) return;
@@ -112,3 +113,35 @@ export function renderInstructionsView(instructions: Instructions, meta?: Resolv
     });
   });
 }
+
+/**
+ * Open the run sheet in a print window, or download it as PDF or Markdown
+ */
+async function exportRunSheet(instructions: Instructions, format: string): Promise<void> {
+  const name = (instructions.name || 'run-sheet').replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+  try {
+    if (format === 'print') {
+      const popup = window.open('', '_blank');
+      if (!popup) {
+        showStatus('Allow popups to print the run sheet', 'error');
+        return;
+      }
+      popup.document.write(renderRunSheetHtml(instructions));
+      popup.document.close();
+      popup.addEventListener('load', () => popup.print());
+      return;
+    }
+
+    const blob = format === 'pdf'
+      ? new Blob([await renderRunSheetPdf(instructions) as BlobPart], { type: 'application/pdf' })
+      : new Blob([renderRunSheetMarkdown(instructions)], { type: 'text/markdown' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${name}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+    showStatus('Run sheet downloaded', 'success');
+  } catch (error) {
+    showStatus(`Failed to render run sheet: ${error}`, 'error');
+  }
+}
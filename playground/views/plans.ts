@@ -3,7 +3,7 @@ import { escapeHtml, renderJsonViewer, formatDuration } from '../utils';
 import { showStatus, showModal } from '../ui';
 import { Plan, PlanPresentation, ContentItem, isContentFile } from '../../src';
 import type { ResolvedFormatMeta } from '../../src';
-import { renderFormatSourceBadge } from './common';
+import { renderFormatSourceBadge, mediaTypeIcon } from './common';
 import { playPlanFiles } from './playlist';
 
 /**
@@ -137,7 +137,7 @@ export function showPresentationDetails(presentation: PlanPresentation): void {
   `;
 
   presentation.files.forEach((file, index) => {
-    const mediaIcon = file.mediaType === 'video' ? '&#127916;' : '&#128444;';
+    const mediaIcon = mediaTypeIcon(file.mediaType);
     detailHtml += `
       <div class="presentation-file-item">
         <span class="file-index">${index + 1}</span>
@@ -3,7 +3,7 @@ import { escapeHtml, renderJsonViewer } from '../utils';
 import { showStatus, showModal } from '../ui';
 import { ContentFile, ContentItem, isContentFile } from '../../src';
 import type { ResolvedFormatMeta } from '../../src';
-import { renderFormatSourceBadge } from './common';
+import { renderFormatSourceBadge, mediaTypeIcon } from './common';
 
 /**
  * Render the playlist view with file list and controls
@@ -30,7 +30,7 @@ export function renderPlaylistView(playlist: ContentFile[], meta: ResolvedFormat
 
   playlist.forEach((file, index) => {
     const escapedTitle = escapeHtml(file.title);
-    const mediaIcon = file.mediaType === 'video' ? '&#127916;' : '&#128444;';
+    const mediaIcon = mediaTypeIcon(file.mediaType);
     const imageHtml = file.thumbnail
       ? `<img class="file-thumb" src="${escapeHtml(file.thumbnail)}" alt="${escapedTitle}" onerror="this.outerHTML='<span class=\\'file-thumb-icon\\'>${mediaIcon}</span>'">`
       : `<span class="file-thumb-icon">${mediaIcon}</span>`;
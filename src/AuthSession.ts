@@ -0,0 +1,135 @@
+import type { IProvider, ContentProviderAuthData, ContentItem, ContentFile, Plan, Instructions, MediaLicenseResult, HttpTransport, RenditionRequest } from "./interfaces";
+import { TokenHelper } from "./helpers/TokenHelper";
+import { providerErrorFromException, reportProviderError } from "./errors";
+
+export type AuthUpdatedListener = (providerId: string, auth: ContentProviderAuthData) => void;
+
+export interface AuthSessionOptions {
+  /** Refresh this many seconds before the token expires (default: 300) */
+  refreshWindow?: number;
+  /** Custom refresh, e.g. (auth) => b1.refreshTokenWithSecret(auth, secret). Defaults to provider.refreshToken, then the standard OAuth refresh grant */
+  refresh?: (auth: ContentProviderAuthData) => Promise<ContentProviderAuthData | null>;
+  onAuthUpdated?: AuthUpdatedListener;
+  transport?: HttpTransport;
+}
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Holds the auth for one provider and refreshes it before calls when it is about to expire.
+ * Concurrent calls share a single refresh, and listeners are told about each new token so it can be persisted.
+ */
+export class AuthSession {
+  private auth: ContentProviderAuthData | null;
+  private receivedAt: number;
+  private refreshing: Promise<ContentProviderAuthData | null> | null = null;
+  private readonly listeners = new Set<AuthUpdatedListener>();
+  private readonly refreshWindow: number;
+  private readonly tokenHelper: TokenHelper;
+
+  constructor(private readonly provider: IProvider, auth: ContentProviderAuthData | null, private readonly options: AuthSessionOptions = {}) {
+    this.auth = auth;
+    this.receivedAt = nowSeconds();
+    this.refreshWindow = options.refreshWindow ?? 300;
+    this.tokenHelper = new TokenHelper(options.transport);
+    if (options.onAuthUpdated) this.listeners.add(options.onAuthUpdated);
+  }
+
+  getProvider(): IProvider {
+    return this.provider;
+  }
+
+  /** Subscribe to refreshed tokens. Returns an unsubscribe function. */
+  onAuthUpdated(listener: AuthUpdatedListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** Replace the stored auth, e.g. after the user signs in again */
+  setAuth(auth: ContentProviderAuthData | null): void {
+    this.auth = auth;
+    this.receivedAt = nowSeconds();
+  }
+
+  /**
+   * Seconds since the epoch at which the token stops being usable, or null when the provider did not say.
+   * created_at comes from whichever clock issued the token, so a value later than when this session
+   * received the token is clamped to the receive time rather than trusted.
+   */
+  getExpiresAt(): number | null {
+    if (!this.auth?.expires_in) return null;
+    const issuedAt = this.auth.created_at ? Math.min(this.auth.created_at, this.receivedAt) : this.receivedAt;
+    return issuedAt + this.auth.expires_in;
+  }
+
+  needsRefresh(): boolean {
+    const expiresAt = this.getExpiresAt();
+    if (expiresAt === null || !this.auth?.refresh_token) return false;
+    return nowSeconds() >= expiresAt - this.refreshWindow;
+  }
+
+  /** Current auth, refreshed first if it is within the refresh window */
+  async getAuth(): Promise<ContentProviderAuthData | null> {
+    if (this.needsRefresh()) await this.refresh();
+    return this.auth;
+  }
+
+  /**
+   * Refresh now. Calls made while a refresh is running wait for it instead of starting another.
+   * On failure the previous auth is kept and null is returned; in "throw" error mode the ProviderError is thrown instead.
+   */
+  refresh(): Promise<ContentProviderAuthData | null> {
+    if (!this.refreshing) {
+      this.refreshing = this.runRefresh().finally(() => { this.refreshing = null; });
+    }
+    return this.refreshing;
+  }
+
+  private async runRefresh(): Promise<ContentProviderAuthData | null> {
+    const current = this.auth;
+    if (!current?.refresh_token) return null;
+
+    let updated: ContentProviderAuthData | null;
+    try {
+      if (this.options.refresh) updated = await this.options.refresh(current);
+      else if (this.provider.refreshToken) updated = await this.provider.refreshToken(current);
+      else updated = await this.tokenHelper.refreshToken(this.provider.config, current);
+    } catch (error) {
+      return reportProviderError(providerErrorFromException(error, this.provider.id, "/token"), null);
+    }
+
+    if (!updated) return null;
+    this.setAuth(updated);
+    for (const listener of this.listeners) listener(this.provider.id, updated);
+    return updated;
+  }
+
+  /** Run any provider call with fresh auth */
+  async run<T>(call: (auth: ContentProviderAuthData | null) => Promise<T>): Promise<T> {
+    return call(await this.getAuth());
+  }
+
+  browse(path?: string | null): Promise<ContentItem[]> {
+    return this.run(auth => this.provider.browse(path, auth));
+  }
+
+  async getPresentations(path: string): Promise<Plan | null> {
+    if (!this.provider.getPresentations) return null;
+    return this.run(auth => this.provider.getPresentations!(path, auth));
+  }
+
+  async getPlaylist(path: string, resolution?: number | RenditionRequest): Promise<ContentFile[] | null> {
+    if (!this.provider.getPlaylist) return null;
+    return this.run(auth => this.provider.getPlaylist!(path, auth, resolution));
+  }
+
+  async getInstructions(path: string): Promise<Instructions | null> {
+    if (!this.provider.getInstructions) return null;
+    return this.run(auth => this.provider.getInstructions!(path, auth));
+  }
+
+  async checkMediaLicense(mediaId: string): Promise<MediaLicenseResult | null> {
+    if (!this.provider.checkMediaLicense) return null;
+    return this.run(auth => this.provider.checkMediaLicense!(mediaId, auth));
+  }
+}
@@ -1,8 +1,32 @@
-import type { ContentFile, Plan, PlanSection, PlanPresentation, Instructions, InstructionItem } from "./interfaces";
-import { detectMediaType } from "./utils";
-
-function generateId(): string {
-  return "gen-" + Math.random().toString(36).substring(2, 11);
+import type { ContentFile, Plan, PlanSection, PlanPresentation, Instructions } from "./interfaces";
+import { detectMediaType, hashString } from "./utils";
+import { filter } from "./instructionTree";
+
+/**
+ * Round-trip guarantees (checked by test/converterChecks.ts):
+ *   - plan -> playlist: every file, unchanged
+ *   - plan -> instructions -> plan (same plan id): section, presentation and file ids, names and order;
+ *     presentation actionType; file title, seconds and thumbnail, with url = downloadUrl || url.
+ *     Requires every section to have a presentation. Lost: plan description/thumbnail, presentation providerData,
+ *     file streamUrl, loop flags, mux/provider fields; mediaType is re-detected from the url.
+ *   - instructions -> plan -> instructions, for "section" > "action"/"item" > "file" trees: ids, labels and
+ *     itemTypes, plus file seconds, downloadUrl and thumbnail. Lost: content, relatedId, other itemTypes;
+ *     presentation seconds are recomputed from the files.
+ *   Empty names and titles are replaced with defaults ("Section", "Untitled"...) in every direction.
+ *   - playlist -> plan -> playlist: every file, unchanged
+ *   - playlist -> instructions -> playlist: file ids, titles, seconds and thumbnails, with url = downloadUrl || url
+ *
+ * Items without an id get one derived from their content, so converting the same input twice gives
+ * the same ids. Repeated content gets -2, -3... suffixes to keep ids unique within one conversion.
+ */
+function createIdGenerator(): (...parts: (string | number | undefined)[]) => string {
+  const used = new Map<string, number>();
+  return (...parts) => {
+    const base = "gen-" + hashString(parts.map(p => p ?? "").join("\u001f"));
+    const count = (used.get(base) || 0) + 1;
+    used.set(base, count);
+    return count === 1 ? base : `${base}-${count}`;
+  };
 }
 
 function mapItemTypeToActionType(itemType?: string): "play" | "other" {
@@ -43,7 +67,7 @@ function mapActionTypeToItemType(actionType: "play" | "other"): string {
   }
 }
 
-// LOSSLESS: All hierarchy and file data preserved
+// LOSSLESS for hierarchy and the file fields instructions can hold (see round-trip guarantees above)
 export function presentationsToExpandedInstructions(plan: Plan): Instructions {
   return {
     name: plan.name,
@@ -55,7 +79,7 @@ export function presentationsToExpandedInstructions(plan: Plan): Instructions {
         id: pres.id,
         itemType: mapActionTypeToItemType(pres.actionType),
         label: pres.name,
-        description: pres.actionType !== "other" ? pres.actionType : undefined,
+        actionType: pres.actionType !== "other" ? pres.actionType : undefined,
         seconds: pres.files.reduce((sum, f) => sum + (f.seconds || 0), 0) || undefined,
         children: pres.files.map(f => ({
           id: f.id,
@@ -70,39 +94,29 @@ export function presentationsToExpandedInstructions(plan: Plan): Instructions {
   };
 }
 
-// LOSSLESS for media: All items with downloadUrl become files
+// LOSSLESS for media: File items and childless items with a downloadUrl all become files
 export function instructionsToPlaylist(instructions: Instructions): ContentFile[] {
-  const files: ContentFile[] = [];
-
-  function extractFiles(items: InstructionItem[]) {
-    for (const item of items) {
-      if (item.downloadUrl && (item.itemType === "file" || !item.children?.length)) {
-        files.push({ type: "file", id: item.id || item.relatedId || generateId(), title: item.label || "Untitled", mediaType: detectMediaType(item.downloadUrl), url: item.downloadUrl, downloadUrl: item.downloadUrl, seconds: item.seconds, thumbnail: item.thumbnail });
-      }
-      if (item.children) {
-        extractFiles(item.children);
-      }
-    }
-  }
-
-  extractFiles(instructions.items);
-  return files;
+  const generateId = createIdGenerator();
+  return filter(instructions, item => !!item.downloadUrl && (item.itemType === "file" || !item.children?.length)).map(({ item }) => ({ type: "file", id: item.id || item.relatedId || generateId("file", item.label, item.downloadUrl), title: item.label || "Untitled", mediaType: detectMediaType(item.downloadUrl!), url: item.downloadUrl!, downloadUrl: item.downloadUrl, seconds: item.seconds, thumbnail: item.thumbnail }));
 }
 
 export const expandedInstructionsToPlaylist = instructionsToPlaylist;
 
 // LOSSLESS when instructions have proper structure
 export function instructionsToPresentations(instructions: Instructions, planId?: string): Plan {
+  const generateId = createIdGenerator();
   const allFiles: ContentFile[] = [];
 
   const sections: PlanSection[] = instructions.items.filter(item => item.children && item.children.length > 0).map(sectionItem => {
+    const sectionId = sectionItem.id || sectionItem.relatedId || generateId("section", sectionItem.label);
     const presentations: PlanPresentation[] = (sectionItem.children || []).map(presItem => {
+      const presentationId = presItem.id || presItem.relatedId || generateId("presentation", sectionId, presItem.label);
       const files: ContentFile[] = [];
 
       if (presItem.children && presItem.children.length > 0) {
         for (const child of presItem.children) {
           if (child.downloadUrl) {
-            const file: ContentFile = { type: "file", id: child.id || child.relatedId || generateId(), title: child.label || "Untitled", mediaType: detectMediaType(child.downloadUrl), url: child.downloadUrl, downloadUrl: child.downloadUrl, seconds: child.seconds, thumbnail: child.thumbnail };
+            const file: ContentFile = { type: "file", id: child.id || child.relatedId || generateId("file", child.label, child.downloadUrl), title: child.label || "Untitled", mediaType: detectMediaType(child.downloadUrl), url: child.downloadUrl, downloadUrl: child.downloadUrl, seconds: child.seconds, thumbnail: child.thumbnail };
             allFiles.push(file);
             files.push(file);
           }
@@ -110,18 +124,18 @@ export function instructionsToPresentations(instructions: Instructions, planId?:
       }
 
       if (files.length === 0 && presItem.downloadUrl) {
-        const file: ContentFile = { type: "file", id: presItem.id || presItem.relatedId || generateId(), title: presItem.label || "Untitled", mediaType: detectMediaType(presItem.downloadUrl), url: presItem.downloadUrl, downloadUrl: presItem.downloadUrl, seconds: presItem.seconds, thumbnail: presItem.thumbnail };
+        const file: ContentFile = { type: "file", id: presItem.id || presItem.relatedId || generateId("file", presItem.label, presItem.downloadUrl), title: presItem.label || "Untitled", mediaType: detectMediaType(presItem.downloadUrl), url: presItem.downloadUrl, downloadUrl: presItem.downloadUrl, seconds: presItem.seconds, thumbnail: presItem.thumbnail };
         allFiles.push(file);
         files.push(file);
       }
 
-      return { id: presItem.id || presItem.relatedId || generateId(), name: presItem.label || "Presentation", actionType: mapItemTypeToActionType(presItem.itemType), files };
+      return { id: presentationId, name: presItem.label || "Presentation", actionType: mapItemTypeToActionType(presItem.itemType), files };
     });
 
-    return { id: sectionItem.id || sectionItem.relatedId || generateId(), name: sectionItem.label || "Section", presentations };
+    return { id: sectionId, name: sectionItem.label || "Section", presentations };
   });
 
-  return { id: planId || generateId(), name: instructions.name || "Plan", sections, allFiles };
+  return { id: planId || generateId("plan", instructions.name, ...sections.map(section => section.id)), name: instructions.name || "Plan", sections, allFiles };
 }
 
 export const expandedInstructionsToPresentations = instructionsToPresentations;
@@ -129,7 +143,7 @@ export const expandedInstructionsToPresentations = instructionsToPresentations;
 // LOSSY: No structural information - all files in one section
 export function playlistToPresentations(files: ContentFile[], planName: string = "Playlist", sectionName: string = "Content"): Plan {
   const presentations: PlanPresentation[] = files.map((file, index) => ({ id: `pres-${index}-${file.id}`, name: file.title, actionType: "play" as const, files: [file] }));
-  return { id: "playlist-plan-" + generateId(), name: planName, sections: [{ id: "main-section", name: sectionName, presentations }], allFiles: [...files] };
+  return { id: "playlist-plan-" + hashString([planName, ...files.map(file => file.id)].join("\u001f")), name: planName, sections: [{ id: "main-section", name: sectionName, presentations }], allFiles: [...files] };
 }
 
 // LOSSY: Minimal structure - just file references in a single section
@@ -1,9 +1,24 @@
-import type { IProvider, ContentFile, ContentProviderAuthData, Plan, Instructions } from "./interfaces";
+import type { IProvider, ContentFile, ContentProviderAuthData, Plan, Instructions, RenditionRequest } from "./interfaces";
 import * as Converters from "./FormatConverters";
 import { parsePath } from "./pathUtils";
+import { ValidationError } from "./errors";
+import { validatePlaylist, validatePlan, validateInstructions, type ValidationResult } from "./validation";
+import { fillMissingDurations, type MediaProbeOptions } from "./mediaProbe";
+import { withLegacyMediaTypes, type MediaTypeMode } from "./utils";
 
 export interface FormatResolverOptions {
   allowLossy?: boolean;
+  /** Validate every result against the published schemas and throw a ValidationError when it has errors (default: false) */
+  strict?: boolean;
+  /** Probe videos that have no seconds (HLS playlists, MP4 headers) and fill them in; costs a few requests per video (default: false) */
+  probeDurations?: boolean | MediaProbeOptions;
+  /** Rendition passed to the provider's getPlaylist (default: the provider's choice) */
+  rendition?: number | RenditionRequest;
+  /**
+   * "legacy" reports only video and image on returned playlists and plans, for apps that handle nothing else (default: "extended").
+   * Instructions have no media types and are returned as they are.
+   */
+  mediaTypes?: MediaTypeMode;
 }
 
 export interface ResolvedFormatMeta {
@@ -18,13 +33,35 @@ export class FormatResolver {
 
   constructor(provider: IProvider, options: FormatResolverOptions = {}) {
     this.provider = provider;
-    this.options = { allowLossy: options.allowLossy ?? true };
+    this.options = { allowLossy: options.allowLossy ?? true, strict: options.strict ?? false, probeDurations: options.probeDurations ?? false, rendition: options.rendition ?? {}, mediaTypes: options.mediaTypes ?? "extended" };
   }
 
   getProvider(): IProvider {
     return this.provider;
   }
 
+  /** In strict mode, throw when the data breaks its schema; otherwise pass it through */
+  private check<T>(data: T | null, validate: (value: unknown) => ValidationResult, path: string): T | null {
+    if (!this.options.strict || data === null) return data;
+    const result = validate(data);
+    if (result.valid) return data;
+    const errors = result.issues.filter(i => i.severity === "error");
+    throw new ValidationError(`${this.provider.id} returned invalid data for ${path}: ${errors[0].path || "/"} ${errors[0].message}${errors.length > 1 ? ` (+${errors.length - 1} more)` : ""}`, { providerId: this.provider.id, path }, result.issues);
+  }
+
+  /** With probeDurations, fill in missing video seconds before the data is returned */
+  private async fillDurations<T extends ContentFile[] | Plan | Instructions>(data: T | null): Promise<T | null> {
+    const probe = this.options.probeDurations;
+    if (probe && data) await fillMissingDurations(data, probe === true ? {} : probe);
+    return data;
+  }
+
+  /** In legacy mode, copy playlists and plans with only video and image media types; Instructions are returned untouched */
+  private applyMediaTypes<T extends ContentFile[] | Plan | Instructions>(data: T | null): T | null {
+    if (this.options.mediaTypes !== "legacy" || !data || !(Array.isArray(data) || "sections" in data)) return data;
+    return withLegacyMediaTypes(data) as T;
+  }
+
   /** Extract the last segment from a path to use as fallback ID/title */
   private getIdFromPath(path: string): string {
     const { segments } = parsePath(path);
@@ -32,17 +69,21 @@ export class FormatResolver {
   }
 
   async getPlaylist(path: string, auth?: ContentProviderAuthData | null): Promise<ContentFile[] | null> {
+    return this.check(this.applyMediaTypes(await this.fillDurations(await this.resolvePlaylist(path, auth))), validatePlaylist, path);
+  }
+
+  private async resolvePlaylist(path: string, auth?: ContentProviderAuthData | null): Promise<ContentFile[] | null> {
     const caps = this.provider.capabilities;
 
     if (caps.playlist && this.provider.getPlaylist) {
-      const result = await this.provider.getPlaylist(path, auth);
+      const result = await this.provider.getPlaylist(path, auth, this.options.rendition);
       if (result && result.length > 0) return result;
     }
 
-    // if (caps.presentations) {
-    //   const plan = await this.provider.getPresentations(path, auth);
-    //   if (plan) return Converters.presentationsToPlaylist(plan);
-    // }
+    if (caps.presentations && this.provider.getPresentations) {
+      const plan = await this.provider.getPresentations(path, auth);
+      if (plan) return Converters.presentationsToPlaylist(plan);
+    }
 
     if (caps.instructions && this.provider.getInstructions) {
       const expanded = await this.provider.getInstructions(path, auth);
@@ -53,19 +94,24 @@ export class FormatResolver {
   }
 
   async getPlaylistWithMeta(path: string, auth?: ContentProviderAuthData | null): Promise<{ data: ContentFile[] | null; meta: ResolvedFormatMeta }> {
+    const result = await this.resolvePlaylistWithMeta(path, auth);
+    return { data: this.check(this.applyMediaTypes(await this.fillDurations(result.data)), validatePlaylist, path), meta: result.meta };
+  }
+
+  private async resolvePlaylistWithMeta(path: string, auth?: ContentProviderAuthData | null): Promise<{ data: ContentFile[] | null; meta: ResolvedFormatMeta }> {
     const caps = this.provider.capabilities;
 
     if (caps.playlist && this.provider.getPlaylist) {
-      const result = await this.provider.getPlaylist(path, auth);
+      const result = await this.provider.getPlaylist(path, auth, this.options.rendition);
       if (result && result.length > 0) {
         return { data: result, meta: { isNative: true, isLossy: false } };
       }
     }
 
-    // if (caps.presentations) {
-    //   const plan = await this.provider.getPresentations(path, auth);
-    //   if (plan) return { data: Converters.presentationsToPlaylist(plan), meta: { isNative: false, sourceFormat: "presentations", isLossy: false } };
-    // }
+    if (caps.presentations && this.provider.getPresentations) {
+      const plan = await this.provider.getPresentations(path, auth);
+      if (plan) return { data: Converters.presentationsToPlaylist(plan), meta: { isNative: false, sourceFormat: "presentations", isLossy: false } };
+    }
 
     if (caps.instructions && this.provider.getInstructions) {
       const expanded = await this.provider.getInstructions(path, auth);
@@ -75,55 +121,68 @@ export class FormatResolver {
     return { data: null, meta: { isNative: false, isLossy: false } };
   }
 
-  // async getPresentations(path: string, auth?: ContentProviderAuthData | null): Promise<Plan | null> {
-  //   const caps = this.provider.capabilities;
-  //   const fallbackId = this.getIdFromPath(path);
+  async getPresentations(path: string, auth?: ContentProviderAuthData | null): Promise<Plan | null> {
+    return this.check(this.applyMediaTypes(await this.fillDurations(await this.resolvePresentations(path, auth))), validatePlan, path);
+  }
+
+  private async resolvePresentations(path: string, auth?: ContentProviderAuthData | null): Promise<Plan | null> {
+    const caps = this.provider.capabilities;
+    const fallbackId = this.getIdFromPath(path);
 
-  //   if (caps.presentations) {
-  //     const result = await this.provider.getPresentations(path, auth);
-  //     if (result) return result;
-  //   }
+    if (caps.presentations && this.provider.getPresentations) {
+      const result = await this.provider.getPresentations(path, auth);
+      if (result) return result;
+    }
 
-  //   if (caps.instructions && this.provider.getInstructions) {
-  //     const expanded = await this.provider.getInstructions(path, auth);
-  //     if (expanded) return Converters.instructionsToPresentations(expanded, fallbackId);
-  //   }
+    if (caps.instructions && this.provider.getInstructions) {
+      const expanded = await this.provider.getInstructions(path, auth);
+      if (expanded) return Converters.instructionsToPresentations(expanded, fallbackId);
+    }
+
+    if (this.options.allowLossy && caps.playlist && this.provider.getPlaylist) {
+      const playlist = await this.provider.getPlaylist(path, auth, this.options.rendition);
+      if (playlist && playlist.length > 0) {
+        return Converters.playlistToPresentations(playlist, fallbackId);
+      }
+    }
 
-  //   if (this.options.allowLossy && caps.playlist && this.provider.getPlaylist) {
-  //     const playlist = await this.provider.getPlaylist(path, auth);
-  //     if (playlist && playlist.length > 0) {
-  //       return Converters.playlistToPresentations(playlist, fallbackId);
-  //     }
-  //   }
+    return null;
+  }
 
-  //   return null;
-  // }
+  async getPresentationsWithMeta(path: string, auth?: ContentProviderAuthData | null): Promise<{ data: Plan | null; meta: ResolvedFormatMeta }> {
+    const result = await this.resolvePresentationsWithMeta(path, auth);
+    return { data: this.check(this.applyMediaTypes(await this.fillDurations(result.data)), validatePlan, path), meta: result.meta };
+  }
 
-  // async getPresentationsWithMeta(path: string, auth?: ContentProviderAuthData | null): Promise<{ data: Plan | null; meta: ResolvedFormatMeta }> {
-  //   const caps = this.provider.capabilities;
-  //   const fallbackId = this.getIdFromPath(path);
+  private async resolvePresentationsWithMeta(path: string, auth?: ContentProviderAuthData | null): Promise<{ data: Plan | null; meta: ResolvedFormatMeta }> {
+    const caps = this.provider.capabilities;
+    const fallbackId = this.getIdFromPath(path);
 
-  //   if (caps.presentations) {
-  //     const result = await this.provider.getPresentations(path, auth);
-  //     if (result) {
-  //       return { data: result, meta: { isNative: true, isLossy: false } };
-  //     }
-  //   }
+    if (caps.presentations && this.provider.getPresentations) {
+      const result = await this.provider.getPresentations(path, auth);
+      if (result) {
+        return { data: result, meta: { isNative: true, isLossy: false } };
+      }
+    }
 
-  //   if (caps.instructions && this.provider.getInstructions) {
-  //     const expanded = await this.provider.getInstructions(path, auth);
-  //     if (expanded) return { data: Converters.instructionsToPresentations(expanded, fallbackId), meta: { isNative: false, sourceFormat: "instructions", isLossy: false } };
-  //   }
+    if (caps.instructions && this.provider.getInstructions) {
+      const expanded = await this.provider.getInstructions(path, auth);
+      if (expanded) return { data: Converters.instructionsToPresentations(expanded, fallbackId), meta: { isNative: false, sourceFormat: "instructions", isLossy: false } };
+    }
 
-  //   if (this.options.allowLossy && caps.playlist && this.provider.getPlaylist) {
-  //     const playlist = await this.provider.getPlaylist(path, auth);
-  //     if (playlist && playlist.length > 0) return { data: Converters.playlistToPresentations(playlist, fallbackId), meta: { isNative: false, sourceFormat: "playlist", isLossy: true } };
-  //   }
+    if (this.options.allowLossy && caps.playlist && this.provider.getPlaylist) {
+      const playlist = await this.provider.getPlaylist(path, auth, this.options.rendition);
+      if (playlist && playlist.length > 0) return { data: Converters.playlistToPresentations(playlist, fallbackId), meta: { isNative: false, sourceFormat: "playlist", isLossy: true } };
+    }
 
-  //   return { data: null, meta: { isNative: false, isLossy: false } };
-  // }
+    return { data: null, meta: { isNative: false, isLossy: false } };
+  }
 
   async getInstructions(path: string, auth?: ContentProviderAuthData | null): Promise<Instructions | null> {
+    return this.check(this.applyMediaTypes(await this.fillDurations(await this.resolveInstructions(path, auth))), validateInstructions, path);
+  }
+
+  private async resolveInstructions(path: string, auth?: ContentProviderAuthData | null): Promise<Instructions | null> {
     const caps = this.provider.capabilities;
     const fallbackTitle = this.getIdFromPath(path);
 
@@ -132,13 +191,13 @@ export class FormatResolver {
       if (result) return result;
     }
 
-    // if (caps.presentations) {
-    //   const plan = await this.provider.getPresentations(path, auth);
-    //   if (plan) return Converters.presentationsToExpandedInstructions(plan);
-    // }
+    if (caps.presentations && this.provider.getPresentations) {
+      const plan = await this.provider.getPresentations(path, auth);
+      if (plan) return Converters.presentationsToExpandedInstructions(plan);
+    }
 
     if (this.options.allowLossy && caps.playlist && this.provider.getPlaylist) {
-      const playlist = await this.provider.getPlaylist(path, auth);
+      const playlist = await this.provider.getPlaylist(path, auth, this.options.rendition);
       if (playlist && playlist.length > 0) {
         return Converters.playlistToInstructions(playlist, fallbackTitle);
       }
@@ -148,6 +207,11 @@ export class FormatResolver {
   }
 
   async getInstructionsWithMeta(path: string, auth?: ContentProviderAuthData | null): Promise<{ data: Instructions | null; meta: ResolvedFormatMeta }> {
+    const result = await this.resolveInstructionsWithMeta(path, auth);
+    return { data: this.check(this.applyMediaTypes(await this.fillDurations(result.data)), validateInstructions, path), meta: result.meta };
+  }
+
+  private async resolveInstructionsWithMeta(path: string, auth?: ContentProviderAuthData | null): Promise<{ data: Instructions | null; meta: ResolvedFormatMeta }> {
     const caps = this.provider.capabilities;
     const fallbackTitle = this.getIdFromPath(path);
 
@@ -158,13 +222,13 @@ export class FormatResolver {
       }
     }
 
-    // if (caps.presentations) {
-    //   const plan = await this.provider.getPresentations(path, auth);
-    //   if (plan) return { data: Converters.presentationsToExpandedInstructions(plan), meta: { isNative: false, sourceFormat: "presentations", isLossy: false } };
-    // }
+    if (caps.presentations && this.provider.getPresentations) {
+      const plan = await this.provider.getPresentations(path, auth);
+      if (plan) return { data: Converters.presentationsToExpandedInstructions(plan), meta: { isNative: false, sourceFormat: "presentations", isLossy: false } };
+    }
 
     if (this.options.allowLossy && caps.playlist && this.provider.getPlaylist) {
-      const playlist = await this.provider.getPlaylist(path, auth);
+      const playlist = await this.provider.getPlaylist(path, auth, this.options.rendition);
       if (playlist && playlist.length > 0) return { data: Converters.playlistToInstructions(playlist, fallbackTitle), meta: { isNative: false, sourceFormat: "playlist", isLossy: true } };
     }
 
@@ -0,0 +1,144 @@
+import type { IProvider, ContentProviderAuthData, ContentItem, RecentPlan, SearchOptions } from "./interfaces";
+import { AuthSession, type AuthUpdatedListener } from "./AuthSession";
+import { ProviderError, AuthError, TimeoutError, providerErrorFromException } from "./errors";
+import { getProvider } from "./providers";
+import { parseContentUri } from "./pathUtils";
+import { resolveContentUri, type ResolvedContent } from "./contentUri";
+
+export interface ProviderHubOptions {
+  /** Milliseconds each provider gets per query before it is reported as timed out (default: 10000) */
+  timeout?: number;
+}
+
+/** A result tagged with the provider it came from */
+export interface HubItem<T> {
+  providerId: string;
+  providerName: string;
+  item: T;
+}
+
+export interface HubFailure {
+  providerId: string;
+  error: ProviderError;
+}
+
+export interface HubResult<T> {
+  items: HubItem<T>[];
+  /** Providers that failed or timed out; their results are missing from items */
+  failures: HubFailure[];
+}
+
+/**
+ * Holds the auth for every connected provider and runs queries across all of them at once.
+ * Each connection is an AuthSession, so tokens are refreshed as needed.
+ * Providers in the default "null" error mode swallow request errors; use setProviderErrorMode("throw")
+ * to see those as failures too. Timeouts are always reported.
+ */
+export class ProviderHub {
+  private readonly sessions = new Map<string, AuthSession>();
+  private readonly listeners = new Set<AuthUpdatedListener>();
+  private readonly timeout: number;
+
+  constructor(options: ProviderHubOptions = {}) {
+    this.timeout = options.timeout ?? 10000;
+  }
+
+  /**
+   * Add a provider (instance or registered id) with its auth. Reconnecting replaces the previous auth.
+   */
+  connect(provider: IProvider | string, auth: ContentProviderAuthData | null = null): AuthSession {
+    const instance = typeof provider === "string" ? getProvider(provider) : provider;
+    if (!instance) throw new Error(`Unknown provider: ${provider}`);
+
+    const session = new AuthSession(instance, auth, { onAuthUpdated: (providerId, updated) => this.listeners.forEach(l => l(providerId, updated)) });
+    this.sessions.set(instance.id, session);
+    return session;
+  }
+
+  disconnect(providerId: string): void {
+    this.sessions.delete(providerId);
+  }
+
+  getSession(providerId: string): AuthSession | null {
+    return this.sessions.get(providerId) || null;
+  }
+
+  getProviders(): IProvider[] {
+    return Array.from(this.sessions.values()).map(s => s.getProvider());
+  }
+
+  /** Called whenever any connected provider refreshes its token */
+  onAuthUpdated(listener: AuthUpdatedListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** Root folders of every connected provider, in connection order */
+  async browseRoots(): Promise<HubResult<ContentItem>> {
+    const result = await this.runAll(this.getSessions(), (session) => session.browse(null), "/");
+    return { items: result.perProvider.flat(), failures: result.failures };
+  }
+
+  /** Search every provider that supports it. Results are interleaved so each provider's best matches come first. */
+  async search(query: string, options?: SearchOptions): Promise<HubResult<ContentItem>> {
+    const sessions = this.getSessions(p => !!(p.capabilities.search && p.search));
+    const result = await this.runAll(sessions, (session) => session.run(auth => session.getProvider().search!(query, options, auth)), `search:${query}`);
+
+    const items: HubItem<ContentItem>[] = [];
+    const longest = Math.max(0, ...result.perProvider.map(list => list.length));
+    for (let i = 0; i < longest; i++) {
+      for (const list of result.perProvider) if (list[i]) items.push(list[i]);
+    }
+    const limit = options?.limit;
+    return { items: limit ? items.slice(0, limit) : items, failures: result.failures };
+  }
+
+  /** Recent plans from every provider that has plans, newest first */
+  async getRecentPlans(options: { limit?: number } = {}): Promise<HubResult<RecentPlan>> {
+    const sessions = this.getSessions(p => !!(p.capabilities.recentPlans && p.getRecentPlans));
+    const result = await this.runAll(sessions, (session) => session.run(auth => session.getProvider().getRecentPlans!(auth, options)), "recentPlans");
+
+    const items = result.perProvider.flat().sort((a, b) => new Date(b.item.date).getTime() - new Date(a.item.date).getTime());
+    return { items: options.limit ? items.slice(0, options.limit) : items, failures: result.failures };
+  }
+
+  /** Resolve a content URI with the connected provider and its auth; null if that provider is not connected */
+  async resolve(uri: string): Promise<ResolvedContent | null> {
+    const parsed = parseContentUri(uri);
+    const session = parsed ? this.sessions.get(parsed.providerId) : undefined;
+    if (!parsed || !session) return null;
+    return resolveContentUri(parsed, { provider: session.getProvider(), auth: await session.getAuth() });
+  }
+
+  private getSessions(filter?: (provider: IProvider) => boolean): AuthSession[] {
+    const sessions = Array.from(this.sessions.values());
+    return filter ? sessions.filter(s => filter(s.getProvider())) : sessions;
+  }
+
+  private async runAll<T>(sessions: AuthSession[], call: (session: AuthSession) => Promise<T[]>, path: string): Promise<{ perProvider: HubItem<T>[][]; failures: HubFailure[] }> {
+    const failures: HubFailure[] = [];
+    const perProvider = await Promise.all(sessions.map(async (session) => {
+      const provider = session.getProvider();
+      try {
+        // The auth check can refresh a token over the network, so it shares the provider's timeout
+        const items = await this.withTimeout((async () => {
+          if (provider.requiresAuth && !(await session.getAuth())) throw new AuthError(`${provider.id} is not signed in`, { providerId: provider.id, path });
+          return call(session);
+        })(), provider.id, path);
+        return items.map(item => ({ providerId: provider.id, providerName: provider.name, item }));
+      } catch (error) {
+        failures.push({ providerId: provider.id, error: providerErrorFromException(error, provider.id, path) });
+        return [];
+      }
+    }));
+    return { perProvider, failures };
+  }
+
+  private withTimeout<T>(promise: Promise<T>, providerId: string, path: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new TimeoutError(`${providerId} did not respond within ${this.timeout}ms`, { providerId, path })), this.timeout);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
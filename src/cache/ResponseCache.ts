@@ -0,0 +1,128 @@
+import { ContentProviderAuthData } from "../interfaces";
+import { ResponseCacheStorage, MemoryCacheStorage } from "./ResponseCacheStorage";
+import { hashString } from "../utils";
+
+/** TTL override for requests whose path starts with pathPrefix (first matching rule wins) */
+export interface CacheRule {
+  pathPrefix: string;
+  /** Time to live in milliseconds; 0 disables caching for matching requests */
+  ttl: number;
+  /** Limit the rule to a single provider */
+  providerId?: string;
+}
+
+export interface ResponseCacheOptions {
+  storage?: ResponseCacheStorage;
+  /** Time to live in milliseconds for requests that match no rule (default: 5 minutes) */
+  defaultTtl?: number;
+  rules?: CacheRule[];
+}
+
+const KEY_SEPARATOR = "|";
+
+/**
+ * Response cache for provider requests, used once it is passed as ProviderOptions.cache or set as the default.
+ * Entries are keyed by provider, auth identity and request path; identical requests that are
+ * already in flight are merged into a single network call.
+ */
+export class ResponseCache {
+  private readonly storage: ResponseCacheStorage;
+  private readonly defaultTtl: number;
+  private readonly rules: CacheRule[];
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.storage = options.storage ?? new MemoryCacheStorage();
+    this.defaultTtl = options.defaultTtl ?? 5 * 60 * 1000;
+    this.rules = options.rules ?? [];
+  }
+
+  buildKey(providerId: string, path: string, auth?: ContentProviderAuthData | null): string {
+    // Hashed so tokens never appear verbatim in cache keys or persistent storage
+    const identity = auth?.access_token ? hashString(auth.access_token) : "anon";
+    return [providerId, identity, path].join(KEY_SEPARATOR);
+  }
+
+  getTtl(providerId: string, path: string): number {
+    const rule = this.rules.find(r => (!r.providerId || r.providerId === providerId) && path.startsWith(r.pathPrefix));
+    return rule ? rule.ttl : this.defaultTtl;
+  }
+
+  /**
+   * Return a fresh cached value, join an identical in-flight request, or run the loader.
+   * Cached and joined results are copies, so callers can edit what they get back.
+   * Null results are not cached so failures are retried on the next call.
+   */
+  async fetch<T>(providerId: string, path: string, auth: ContentProviderAuthData | null | undefined, loader: () => Promise<T | null>): Promise<T | null> {
+    const key = this.buildKey(providerId, path, auth);
+    const ttl = this.getTtl(providerId, path);
+
+    if (ttl > 0) {
+      const entry = await this.storage.get(key);
+      if (entry && entry.expiresAt > Date.now()) return structuredClone(entry.value as T);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) return structuredClone(await (pending as Promise<T | null>));
+
+    const request = (async () => {
+      try {
+        const value = await loader();
+        if (value !== null && value !== undefined && ttl > 0) {
+          await this.storage.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttl });
+        }
+        return value;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Drop cached entries for a provider, optionally only those whose path starts with pathPrefix.
+   * Applies to every auth identity.
+   */
+  async invalidate(providerId: string, pathPrefix: string = ""): Promise<void> {
+    const keys = await this.storage.keys();
+    for (const key of keys) {
+      const [keyProviderId, , ...pathParts] = key.split(KEY_SEPARATOR);
+      if (keyProviderId === providerId && pathParts.join(KEY_SEPARATOR).startsWith(pathPrefix)) {
+        await this.storage.delete(key);
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.storage.keys();
+    for (const key of keys) await this.storage.delete(key);
+  }
+}
+
+let defaultCache: ResponseCache | null = null;
+
+/**
+ * Set the cache shared by providers that were not given one explicitly.
+ * Caching is off until a cache is set here or passed to a provider; pass null to turn it off again.
+ */
+export function setDefaultResponseCache(cache: ResponseCache | null): void {
+  defaultCache = cache;
+}
+
+export function getDefaultResponseCache(): ResponseCache | null {
+  return defaultCache;
+}
+
+/** Whether requests with this cache option go through a cache: the given one, or the default when undefined */
+export function isCaching(cache: ResponseCache | null | undefined): boolean {
+  return (cache === undefined ? defaultCache : cache) !== null;
+}
+
+/**
+ * Run a request through the given cache (undefined = the default cache, if one is set; null = no caching).
+ */
+export function cachedRequest<T>(cache: ResponseCache | null | undefined, providerId: string, path: string, auth: ContentProviderAuthData | null | undefined, loader: () => Promise<T | null>): Promise<T | null> {
+  const target = cache === undefined ? defaultCache : cache;
+  return target ? target.fetch(providerId, path, auth, loader) : loader();
+}
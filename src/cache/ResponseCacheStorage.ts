@@ -0,0 +1,180 @@
+/**
+ * Storage adapters for ResponseCache.
+ * Entries are plain JSON so any key/value store can hold them.
+ */
+
+export interface CacheEntry {
+  value: unknown;
+  /** Epoch milliseconds after which the entry is stale */
+  expiresAt: number;
+}
+
+export interface ResponseCacheStorage {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export class MemoryCacheStorage implements ResponseCacheStorage {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.entries.keys());
+  }
+}
+
+/**
+ * Browser localStorage (or any Storage-compatible object such as sessionStorage).
+ */
+export class LocalStorageCacheStorage implements ResponseCacheStorage {
+  constructor(private readonly storage: Storage = localStorage, private readonly prefix: string = "cph-cache:") {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const raw = this.storage.getItem(this.prefix + key);
+    if (!raw) return undefined;
+    try {
+      return JSON.parse(raw) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      this.storage.setItem(this.prefix + key, JSON.stringify(entry));
+    } catch {
+      // Quota exceeded - caching is best effort
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(this.prefix)) keys.push(key.substring(this.prefix.length));
+    }
+    return keys;
+  }
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Browser IndexedDB - suited to larger caches than localStorage allows.
+ */
+export class IndexedDbCacheStorage implements ResponseCacheStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = "content-provider-cache", private readonly storeName: string = "responses") {}
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+      this.dbPromise = promisifyRequest(request);
+    }
+    return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.getDb();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return promisifyRequest((await this.store("readonly")).get(key)) as Promise<CacheEntry | undefined>;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await promisifyRequest((await this.store("readwrite")).put(entry, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await promisifyRequest((await this.store("readwrite")).delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await promisifyRequest((await this.store("readonly")).getAllKeys());
+    return keys.map(String);
+  }
+}
+
+/** The subset of Node's fs/promises used by FileSystemCacheStorage */
+export interface CacheFileSystem {
+  readFile(path: string, encoding: "utf8"): Promise<string>;
+  writeFile(path: string, data: string, encoding: "utf8"): Promise<void>;
+  unlink(path: string): Promise<void>;
+  readdir(path: string): Promise<string[]>;
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+}
+
+/**
+ * One JSON file per entry in a directory. Pass Node's fs/promises module:
+ *   new FileSystemCacheStorage("./.cache/providers", await import("fs/promises"))
+ */
+export class FileSystemCacheStorage implements ResponseCacheStorage {
+  private ready: Promise<unknown> | null = null;
+
+  constructor(private readonly directory: string, private readonly fs: CacheFileSystem) {}
+
+  private filePath(key: string): string {
+    return `${this.directory}/${encodeURIComponent(key)}.json`;
+  }
+
+  private ensureDirectory(): Promise<unknown> {
+    if (!this.ready) this.ready = this.fs.mkdir(this.directory, { recursive: true });
+    return this.ready;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await this.fs.readFile(this.filePath(key), "utf8")) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.ensureDirectory();
+    await this.fs.writeFile(this.filePath(key), JSON.stringify(entry), "utf8");
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.fs.unlink(this.filePath(key));
+    } catch {
+      // Already gone
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    try {
+      const files = await this.fs.readdir(this.directory);
+      return files.filter(f => f.endsWith(".json")).map(f => decodeURIComponent(f.slice(0, -5)));
+    } catch {
+      return [];
+    }
+  }
+}
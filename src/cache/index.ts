@@ -0,0 +1,2 @@
+export { ResponseCache, setDefaultResponseCache, getDefaultResponseCache, cachedRequest, isCaching, type CacheRule, type ResponseCacheOptions } from "./ResponseCache";
+export { MemoryCacheStorage, LocalStorageCacheStorage, IndexedDbCacheStorage, FileSystemCacheStorage, type ResponseCacheStorage, type CacheEntry, type CacheFileSystem } from "./ResponseCacheStorage";
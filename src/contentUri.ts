@@ -0,0 +1,62 @@
+/**
+ * Resolve a content URI (see parseContentUri) to the content it references in one call.
+ */
+
+import type { IProvider, ContentItem, ContentFile, ContentProviderAuthData, Instructions, InstructionItem, PathInfo } from "./interfaces";
+import { parseContentUri, buildPath, parsePath, type ContentUri } from "./pathUtils";
+import { resolveInstructionPath } from "./instructionPathUtils";
+import { resolvePathInfo } from "./pathInfo";
+import { FormatResolver } from "./FormatResolver";
+import { getProvider } from "./providers";
+
+export type ResolvedContent =
+  | { kind: "folder"; uri: ContentUri; info: PathInfo; items: ContentItem[] }
+  | { kind: "file"; uri: ContentUri; info: PathInfo; file: ContentFile }
+  | { kind: "playlist"; uri: ContentUri; info: PathInfo; files: ContentFile[] }
+  | { kind: "instruction"; uri: ContentUri; item: InstructionItem; instructions: Instructions; matchedBy: "id" | "position"; stale: boolean };
+
+export interface ResolveContentUriOptions {
+  auth?: ContentProviderAuthData | null;
+  /** Provider instance to use; defaults to the registered provider with the URI's id */
+  provider?: IProvider;
+}
+
+/**
+ * Resolve a content URI:
+ *   - with an instruction path (#0.2.1 or #sec-1@0/act-9@2) -> that instruction item and its subtree,
+ *     with how it matched (check stale before playing it)
+ *   - pointing at a file -> the file
+ *   - pointing at a leaf folder -> its playlist
+ *   - otherwise -> the folder listing
+ * Returns null when the URI, provider or content cannot be found.
+ */
+export async function resolveContentUri(uri: string | ContentUri, options: ResolveContentUriOptions = {}): Promise<ResolvedContent | null> {
+  const parsed = typeof uri === "string" ? parseContentUri(uri) : uri;
+  if (!parsed) return null;
+
+  const provider = options.provider ?? getProvider(parsed.providerId);
+  if (!provider) return null;
+  const auth = options.auth;
+
+  if (parsed.contentPath) {
+    const instructions = await new FormatResolver(provider).getInstructions(parsed.path, auth);
+    const resolved = instructions ? resolveInstructionPath(instructions, parsed.contentPath) : null;
+    return instructions && resolved ? { kind: "instruction", uri: parsed, item: resolved.item, instructions, matchedBy: resolved.matchedBy, stale: resolved.stale } : null;
+  }
+
+  const info = provider.getPathInfo ? await provider.getPathInfo(parsed.path, auth) : await resolvePathInfo(provider, parsed.path, auth);
+
+  if (info.kind === "file") {
+    const { segments } = parsePath(parsed.path);
+    const siblings = await provider.browse(buildPath(segments.slice(0, -1)), auth);
+    const file = siblings.find((item): item is ContentFile => item.type === "file" && item.id === segments[segments.length - 1]);
+    return file ? { kind: "file", uri: parsed, info, file } : null;
+  }
+
+  if (info.kind === "leaf") {
+    const files = await new FormatResolver(provider).getPlaylist(parsed.path, auth);
+    if (files) return { kind: "playlist", uri: parsed, info, files };
+  }
+
+  return { kind: "folder", uri: parsed, info, items: await provider.browse(parsed.path, auth) };
+}
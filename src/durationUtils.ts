@@ -1,6 +1,15 @@
+import type { Instructions, InstructionItem, MediaType } from "./interfaces";
+import { detectMediaType } from "./utils";
+
 export interface DurationEstimationConfig {
   secondsPerImage: number;      // Default: 15
   wordsPerMinute: number;       // Default: 150
+  minimumTextSeconds?: number;  // Default: none
+}
+
+/** A named set of estimation settings, e.g. a slower reading speed for preschool classes */
+export interface DurationProfile extends DurationEstimationConfig {
+  name: string;
 }
 
 export const DEFAULT_DURATION_CONFIG: DurationEstimationConfig = {
@@ -38,17 +47,18 @@ export function estimateTextDuration(
 ): number {
   const words = countWords(text);
   const wpm = config.wordsPerMinute ?? DEFAULT_DURATION_CONFIG.wordsPerMinute;
-  return Math.ceil((words / wpm) * 60);
+  const seconds = Math.ceil((words / wpm) * 60);
+  return words > 0 && config.minimumTextSeconds ? Math.max(seconds, config.minimumTextSeconds) : seconds;
 }
 
 /**
  * Estimate duration based on media type
- * @param mediaType - "video" | "image" | "text"
+ * @param mediaType - A MediaType; documents and web pages are shown as long as an image
  * @param options - Text content or word count for text estimation
- * @returns Duration in seconds (0 for video/unknown)
+ * @returns Duration in seconds (0 for video/audio/unknown; probeMediaDuration reads real video durations)
  */
 export function estimateDuration(
-  mediaType: "video" | "image" | "text",
+  mediaType: MediaType,
   options?: {
     text?: string;
     wordCount?: number;
@@ -59,18 +69,159 @@ export function estimateDuration(
 
   switch (mediaType) {
     case "image":
+    case "document":
+    case "web":
       return estimateImageDuration(config);
     case "text":
       if (options?.wordCount) {
         const wpm = config.wordsPerMinute ?? DEFAULT_DURATION_CONFIG.wordsPerMinute;
-        return Math.ceil((options.wordCount / wpm) * 60);
+        return Math.max(Math.ceil((options.wordCount / wpm) * 60), config.minimumTextSeconds ?? 0);
       }
       if (options?.text) {
         return estimateTextDuration(options.text, config);
       }
       return 0;
     case "video":
+    case "audio":
     default:
       return 0;
   }
 }
+
+/**
+ * Built-in profiles. Reading speeds are for text read aloud to the audience.
+ *   preschool - slow reading, pictures stay up longer
+ *   elementary - moderate reading
+ *   adult - conversational reading, quicker slides
+ *   announcements - short slides that still stay up long enough to read
+ */
+export const DURATION_PROFILES: Record<string, DurationProfile> = {
+  default: { name: "default", ...DEFAULT_DURATION_CONFIG },
+  preschool: { name: "preschool", secondsPerImage: 20, wordsPerMinute: 90 },
+  elementary: { name: "elementary", secondsPerImage: 15, wordsPerMinute: 120 },
+  adult: { name: "adult", secondsPerImage: 10, wordsPerMinute: 160 },
+  announcements: { name: "announcements", secondsPerImage: 8, wordsPerMinute: 180, minimumTextSeconds: 8 }
+};
+
+const customProfiles = new Map<string, DurationProfile>();
+const providerProfiles = new Map<string, string | DurationProfile>();
+let defaultProfile: string | DurationProfile = "default";
+
+/** Add or replace a named profile so it can be referenced by name */
+export function registerDurationProfile(profile: DurationProfile): void {
+  customProfiles.set(profile.name, profile);
+}
+
+/**
+ * Look up a profile by name (custom profiles first), or pass a profile or partial config through.
+ * Unknown names fall back to the default profile.
+ */
+export function getDurationProfile(profile?: string | DurationProfile | Partial<DurationEstimationConfig>): DurationProfile {
+  if (profile === undefined) return getDurationProfile(defaultProfile);
+  if (typeof profile === "string") return customProfiles.get(profile) ?? DURATION_PROFILES[profile] ?? DURATION_PROFILES.default;
+  return { ...DURATION_PROFILES.default, name: "custom", ...profile };
+}
+
+/**
+ * Choose the profile used for estimates.
+ * @param profile - Profile name or profile
+ * @param providerId - Optional provider to configure; omit to change the default for all providers
+ */
+export function setProviderDurationProfile(profile: string | DurationProfile, providerId?: string): void {
+  if (providerId) providerProfiles.set(providerId, profile);
+  else defaultProfile = profile;
+}
+
+export function getProviderDurationProfile(providerId: string): DurationProfile {
+  return getDurationProfile(providerProfiles.get(providerId) ?? defaultProfile);
+}
+
+/**
+ * Where a duration came from:
+ *   provided - the item's own seconds
+ *   children - the sum of its children
+ *   estimated - image display time or text reading time from the profile
+ *   unknown - nothing to go on (e.g. a video without seconds); counts as 0
+ */
+export type DurationSource = "provided" | "children" | "estimated" | "unknown";
+
+/** Estimate a leaf item that has no seconds from its media type or its content text */
+export function estimateItemDuration(item: InstructionItem, config: Partial<DurationEstimationConfig> = {}): { seconds: number; source: DurationSource } {
+  const shown: MediaType[] = ["image", "document", "web"];
+  if (item.downloadUrl && shown.includes(detectMediaType(item.downloadUrl))) return { seconds: estimateImageDuration(config), source: "estimated" };
+  if (item.content) return { seconds: estimateTextDuration(item.content, config), source: "estimated" };
+  return { seconds: 0, source: "unknown" };
+}
+
+export interface EstimatedItemDuration {
+  /** Positional dot-notation path */
+  path: string;
+  /** The item in the returned copy */
+  item: InstructionItem;
+  seconds: number;
+  source: DurationSource;
+}
+
+export interface InstructionsDurationEstimate {
+  /** Copy of the instructions with every item's seconds filled in (parents are the sum of their children) */
+  instructions: Instructions;
+  profile: DurationProfile;
+  totalSeconds: number;
+  /** Part of the total that came from provider seconds */
+  providedSeconds: number;
+  /** Part of the total that was estimated */
+  estimatedSeconds: number;
+  /** Items in walk order (parents before their children) */
+  items: EstimatedItemDuration[];
+}
+
+/**
+ * Estimate a whole instruction tree. Provider seconds are kept; leaves without seconds are estimated from the profile
+ * and parents without seconds roll up their children. The input is not modified.
+ * @param profile - Profile name, profile or config overrides (default: the default profile)
+ */
+export function estimateInstructionsDuration(
+  instructions: Instructions,
+  profile?: string | DurationProfile | Partial<DurationEstimationConfig>
+): InstructionsDurationEstimate {
+  const resolved = getDurationProfile(profile);
+  const entries: EstimatedItemDuration[] = [];
+
+  // Returns the item's seconds split into provided and estimated parts
+  const visit = (item: InstructionItem, path: string): { copy: InstructionItem; provided: number; estimated: number } => {
+    const copy: InstructionItem = { ...item };
+    const entry: EstimatedItemDuration = { path, item: copy, seconds: 0, source: "unknown" };
+    entries.push(entry);
+
+    const children = item.children?.map((child, i) => visit(child, `${path}.${i}`));
+    if (children) copy.children = children.map(c => c.copy);
+
+    let provided = 0;
+    let estimated = 0;
+    if (item.seconds && item.seconds > 0) {
+      Object.assign(entry, { seconds: item.seconds, source: "provided" });
+      provided = item.seconds;
+    } else if (children?.length) {
+      provided = children.reduce((sum, c) => sum + c.provided, 0);
+      estimated = children.reduce((sum, c) => sum + c.estimated, 0);
+      Object.assign(entry, { seconds: provided + estimated, source: "children" });
+    } else {
+      Object.assign(entry, estimateItemDuration(item, resolved));
+      estimated = entry.seconds;
+    }
+    if (entry.seconds > 0) copy.seconds = entry.seconds;
+    return { copy, provided, estimated };
+  };
+
+  const results = (instructions?.items || []).map((item, i) => visit(item, String(i)));
+  const providedSeconds = results.reduce((sum, r) => sum + r.provided, 0);
+  const estimatedSeconds = results.reduce((sum, r) => sum + r.estimated, 0);
+  return {
+    instructions: { ...instructions, items: results.map(r => r.copy) },
+    profile: resolved,
+    totalSeconds: providedSeconds + estimatedSeconds,
+    providedSeconds,
+    estimatedSeconds,
+    items: entries
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Typed errors raised by providers when a request fails.
+ *
+ * By default providers keep their historical behavior and return null or [] on failure.
+ * Call setProviderErrorMode("throw") (globally or for a single provider) to have failures
+ * raised as ProviderError instances instead, and wrap calls in toProviderResult() to get a
+ * result object rather than an exception.
+ */
+
+import type { ValidationIssue } from "./validation";
+
+export type ProviderErrorKind = "auth" | "forbidden" | "not_found" | "rate_limited" | "server" | "network" | "timeout" | "invalid_response" | "unknown";
+
+export interface ProviderErrorDetails {
+  providerId: string;
+  path: string;
+  status?: number;
+  cause?: unknown;
+}
+
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly providerId: string;
+  readonly path: string;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(kind: ProviderErrorKind, message: string, details: ProviderErrorDetails) {
+    super(message);
+    this.name = "ProviderError";
+    this.kind = kind;
+    this.providerId = details.providerId;
+    this.path = details.path;
+    this.status = details.status;
+    this.cause = details.cause;
+  }
+}
+
+/** 401 - the token is missing, expired or revoked */
+export class AuthError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super("auth", message, details);
+    this.name = "AuthError";
+  }
+}
+
+/** 403 - the token is valid but lacks access to the resource */
+export class ForbiddenError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super("forbidden", message, details);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super("not_found", message, details);
+    this.name = "NotFoundError";
+  }
+}
+
+export class RateLimitError extends ProviderError {
+  /** Seconds to wait before retrying, when the provider sent a Retry-After header */
+  readonly retryAfter?: number;
+
+  constructor(message: string, details: ProviderErrorDetails, retryAfter?: number) {
+    super("rate_limited", message, details);
+    this.name = "RateLimitError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class ServerError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super("server", message, details);
+    this.name = "ServerError";
+  }
+}
+
+/** The request never got a response (offline, DNS, CORS, aborted) */
+export class NetworkError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super("network", message, details);
+    this.name = "NetworkError";
+  }
+}
+
+/** The provider did not answer within the caller's time limit */
+export class TimeoutError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super("timeout", message, details);
+    this.name = "TimeoutError";
+  }
+}
+
+/** The response arrived but could not be parsed */
+export class InvalidResponseError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super("invalid_response", message, details);
+    this.name = "InvalidResponseError";
+  }
+}
+
+/** Strict mode: the provider returned data that does not match the published schema */
+export class ValidationError extends InvalidResponseError {
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, details: ProviderErrorDetails, issues: ValidationIssue[]) {
+    super(message, details);
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Build the matching ProviderError subclass for a non-ok HTTP response.
+ */
+export function providerErrorFromResponse(response: Response, providerId: string, path: string): ProviderError {
+  const status = response.status;
+  const details: ProviderErrorDetails = { providerId, path, status };
+  const message = `${providerId} request to ${path} failed with ${status}${response.statusText ? ` ${response.statusText}` : ""}`;
+
+  if (status === 401) return new AuthError(message, details);
+  if (status === 403) return new ForbiddenError(message, details);
+  if (status === 404) return new NotFoundError(message, details);
+  if (status === 429) return new RateLimitError(message, details, parseRetryAfter(response.headers.get("Retry-After")));
+  if (status >= 500) return new ServerError(message, details);
+  return new ProviderError("unknown", message, details);
+}
+
+/**
+ * Wrap anything thrown while making a request. ProviderErrors pass through unchanged.
+ */
+export function providerErrorFromException(error: unknown, providerId: string, path: string): ProviderError {
+  if (error instanceof ProviderError) return error;
+  const details: ProviderErrorDetails = { providerId, path, cause: error };
+  const reason = error instanceof Error ? error.message : String(error);
+  if (error instanceof SyntaxError) return new InvalidResponseError(`${providerId} returned an invalid response for ${path}: ${reason}`, details);
+  if (error instanceof TypeError || (error instanceof Error && error.name === "AbortError")) return new NetworkError(`${providerId} request to ${path} failed: ${reason}`, details);
+  return new ProviderError("unknown", `${providerId} request to ${path} failed: ${reason}`, details);
+}
+
+export type ProviderErrorMode = "null" | "throw";
+
+const providerErrorModes = new Map<string, ProviderErrorMode>();
+let defaultErrorMode: ProviderErrorMode = "null";
+
+/**
+ * Choose how request failures are surfaced.
+ * @param mode - "null" keeps the legacy null/[] results, "throw" raises ProviderError
+ * @param providerId - Optional provider to configure; omit to change the default for all providers
+ */
+export function setProviderErrorMode(mode: ProviderErrorMode, providerId?: string): void {
+  if (providerId) providerErrorModes.set(providerId, mode);
+  else defaultErrorMode = mode;
+}
+
+export function getProviderErrorMode(providerId: string): ProviderErrorMode {
+  return providerErrorModes.get(providerId) ?? defaultErrorMode;
+}
+
+/**
+ * Raise the error when its provider is in "throw" mode, otherwise return the legacy fallback value.
+ */
+export function reportProviderError<T>(error: ProviderError, fallback: T): T {
+  if (getProviderErrorMode(error.providerId) === "throw") throw error;
+  return fallback;
+}
+
+export type ProviderResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: ProviderError };
+
+/**
+ * Run a provider call and capture a thrown ProviderError as a result object.
+ * Only providers in "throw" mode report failures this way; in "null" mode failures arrive as ok results with null/[] data.
+ */
+export async function toProviderResult<T>(call: () => Promise<T>, context?: { providerId?: string; path?: string }): Promise<ProviderResult<T>> {
+  try {
+    return { ok: true, data: await call() };
+  } catch (error) {
+    return { ok: false, error: providerErrorFromException(error, context?.providerId ?? "unknown", context?.path ?? "") };
+  }
+}
@@ -0,0 +1,245 @@
+import type { Instructions, InstructionItem, ContentFile, HttpTransport, MediaType, MediaDownloadFailure } from "../interfaces";
+import { detectMediaType, slugify } from "../utils";
+import { httpFetch } from "../helpers/HttpTransport";
+import { ZipWriter, concatBytes, type ZipEntry } from "./zip";
+
+/**
+ * OpenLP service package (.osz) exporter.
+ *
+ * Sections become service items: action text (content) is collected into custom slide items and each
+ * file becomes a media item (video, audio) or images item. Documents, text files and web pages cannot be shown
+ * by OpenLP, so they become a custom slide with their title and link. Media can be embedded in the package or referenced
+ * by file name. Output uses the OpenLP 2.4 service file layout, which OpenLP 3 also opens.
+ */
+
+export interface OpenLPExportOptions {
+  /**
+   * "embed" downloads media into the package (default). "reference" lists media by file name only; OpenLP cannot
+   * open URLs, so it asks for each missing file when the service is loaded.
+   */
+  media?: "embed" | "reference";
+  /** Used to download media when embedding */
+  transport?: HttpTransport;
+}
+
+export interface OpenLPServicePackage {
+  bytes: Uint8Array;
+  /** Media that could not be downloaded; the package references it by file name instead */
+  failures: MediaDownloadFailure[];
+}
+
+export interface OpenLPServiceStream {
+  stream: ReadableStream<Uint8Array>;
+  /** Media that could not be downloaded; complete once the stream has been read to the end */
+  failures: MediaDownloadFailure[];
+}
+
+/** OpenLP ItemCapabilities values */
+const Capability = { CanPreview: 1, CanEdit: 2, CanMaintain: 3, RequiresMedia: 4, CanLoop: 5, CanAppend: 6, CanSoftBreak: 13, CanAutoStartForLive: 16, CanEditTitle: 17, HasThumbnails: 21 };
+
+/** OpenLP ServiceItemType values */
+const ItemType = { Text: 1, Image: 2, Command: 3 };
+
+const SECTION_TYPES = ["section", "header", "lessonSection"];
+
+interface MediaRef {
+  title: string;
+  url: string;
+  mediaType: MediaType;
+  seconds?: number;
+  loop?: boolean;
+}
+
+type Block =
+  | { kind: "text"; title: string; slides: { title: string; text: string }[] }
+  | { kind: "media"; file: MediaRef }
+  | { kind: "images"; title: string; groupKey: string; files: MediaRef[] };
+
+function isFileItem(item: InstructionItem): boolean {
+  return item.itemType === "file" || (!!item.downloadUrl && !item.children?.length);
+}
+
+function addTextSlide(blocks: Block[], title: string, slide: { title: string; text: string }): void {
+  const last = blocks[blocks.length - 1];
+  if (last?.kind === "text" && last.title === title) last.slides.push(slide);
+  else blocks.push({ kind: "text", title, slides: [slide] });
+}
+
+function addMedia(blocks: Block[], file: MediaRef, groupTitle: string, groupKey: string): void {
+  switch (file.mediaType) {
+    case "video":
+    case "audio":
+      blocks.push({ kind: "media", file });
+      return;
+    case "image": {
+      const last = blocks[blocks.length - 1];
+      if (last?.kind === "images" && last.groupKey === groupKey) last.files.push(file);
+      else blocks.push({ kind: "images", title: groupTitle, groupKey, files: [file] });
+      return;
+    }
+    default:
+      addTextSlide(blocks, groupTitle, { title: file.title, text: `${file.title}\n${file.url}` });
+  }
+}
+
+function blocksFromInstructions(instructions: Instructions): Block[] {
+  const blocks: Block[] = [];
+
+  const visit = (item: InstructionItem, sectionTitle: string, parent: InstructionItem | null, key: string) => {
+    if (isFileItem(item)) {
+      if (!item.downloadUrl) return;
+      const title = item.label || parent?.label || "Media";
+      addMedia(blocks, { title, url: item.downloadUrl, mediaType: detectMediaType(item.downloadUrl), seconds: item.seconds ?? parent?.seconds }, parent?.label || sectionTitle, key.slice(0, key.lastIndexOf(".")));
+      return;
+    }
+
+    const isSection = SECTION_TYPES.includes(item.itemType || "");
+    const currentSection = isSection ? item.label || sectionTitle : sectionTitle;
+
+    if (item.content && !isSection) addTextSlide(blocks, currentSection, { title: item.label || "", text: item.content });
+
+    (item.children || []).forEach((child, i) => visit(child, currentSection, item, `${key}.${i}`));
+  };
+
+  instructions.items.forEach((item, i) => visit(item, instructions.name || "Service", null, String(i)));
+  return blocks;
+}
+
+function blocksFromPlaylist(files: ContentFile[]): Block[] {
+  const blocks: Block[] = [];
+  files.forEach((file, i) => addMedia(blocks, { title: file.title, url: file.downloadUrl || file.url, mediaType: file.mediaType, seconds: file.seconds, loop: file.loop }, file.title, String(i)));
+  return blocks;
+}
+
+function splitUrl(url: string): { directory: string; fileName: string } {
+  const clean = url.split(/[?#]/)[0];
+  const index = clean.lastIndexOf("/");
+  return { directory: clean.slice(0, index), fileName: decodeURIComponent(clean.slice(index + 1)) };
+}
+
+function fileExtension(ref: MediaRef): string {
+  const match = splitUrl(ref.url).fileName.match(/\.[a-z0-9]{2,4}$/i);
+  if (match && match[0].toLowerCase() !== ".m3u8") return match[0].toLowerCase();
+  return ref.mediaType === "audio" ? ".mp3" : ref.mediaType === "video" ? ".mp4" : ".jpg";
+}
+
+/** Downloads media for embedding; each URL gets one unique file name in the package */
+class MediaStore {
+  /** Downloaded entries not yet written to the archive */
+  pending: ZipEntry[] = [];
+  private readonly names = new Map<string, string | null>();
+  private readonly used = new Set<string>();
+
+  constructor(private readonly options: OpenLPExportOptions, private readonly failures: MediaDownloadFailure[]) {}
+
+  /** Returns the package file name, or null when the file is referenced by name instead */
+  async add(ref: MediaRef): Promise<string | null> {
+    if (this.options.media === "reference") return null;
+    if (this.names.has(ref.url)) return this.names.get(ref.url)!;
+
+    let name: string | null = null;
+    try {
+      const response = await httpFetch(ref.url, undefined, this.options.transport);
+      if (response.ok) {
+        const base = slugify(ref.title) || "media";
+        name = `${base}${fileExtension(ref)}`;
+        for (let n = 2; this.used.has(name); n++) name = `${base}-${n}${fileExtension(ref)}`;
+        this.used.add(name);
+        this.pending.push({ name, data: new Uint8Array(await response.arrayBuffer()) });
+      } else {
+        this.failures.push({ url: ref.url, fileName: splitUrl(ref.url).fileName, message: `HTTP ${response.status}` });
+      }
+    } catch (error) {
+      name = null;
+      this.failures.push({ url: ref.url, fileName: splitUrl(ref.url).fileName, message: error instanceof Error ? error.message : String(error) });
+    }
+    this.names.set(ref.url, name);
+    return name;
+  }
+
+  take(): ZipEntry[] {
+    const entries = this.pending;
+    this.pending = [];
+    return entries;
+  }
+}
+
+function itemHeader(name: string, type: number, title: string, capabilities: number[], extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return { name, plugin: name, theme: null, title, footer: [], type, audit: "", notes: "", from_plugin: false, capabilities, search: "", data: "", xml_version: null, auto_play_slides_once: false, auto_play_slides_loop: false, timed_slide_interval: 0, start_time: 0, end_time: 0, media_length: 0, background_audio: [], theme_overwritten: false, will_auto_start: false, processor: null, ...extra };
+}
+
+async function serviceItem(block: Block, store: MediaStore): Promise<Record<string, unknown>> {
+  if (block.kind === "text") {
+    const header = itemHeader("custom", ItemType.Text, block.title, [Capability.CanEdit, Capability.CanPreview, Capability.CanLoop, Capability.CanSoftBreak]);
+    const data = block.slides.map((slide, i) => ({ title: (slide.title || slide.text.split("\n")[0]).slice(0, 30), raw_slide: slide.text, verseTag: String(i + 1) }));
+    return { serviceitem: { header, data } };
+  }
+
+  if (block.kind === "media") {
+    const file = block.file;
+    const embedded = await store.add(file);
+    const { fileName } = splitUrl(file.url);
+    const header = itemHeader("media", ItemType.Command, file.title, [Capability.CanAutoStartForLive, Capability.CanEditTitle, Capability.RequiresMedia], { media_length: file.seconds || 0, end_time: file.seconds || 0, will_auto_start: true, processor: "Automatic" });
+    const data = [{ title: embedded || fileName, image: null, path: "", display_title: file.title }];
+    return { serviceitem: { header, data } };
+  }
+
+  const seconds = block.files.find(f => f.seconds)?.seconds || 0;
+  const loop = block.files.some(f => f.loop);
+  const header = itemHeader("images", ItemType.Image, block.title, [Capability.CanMaintain, Capability.CanPreview, Capability.CanLoop, Capability.CanAppend, Capability.CanEditTitle, Capability.HasThumbnails], { timed_slide_interval: seconds, auto_play_slides_loop: loop && seconds > 0, auto_play_slides_once: !loop && seconds > 0 });
+  const data = [];
+  for (const file of block.files) {
+    const embedded = await store.add(file);
+    const name = embedded || splitUrl(file.url).fileName;
+    data.push({ title: name, image: name, path: name });
+  }
+  return { serviceitem: { header, data } };
+}
+
+/** The package chunks in archive order: media entries as they download, then the service data and the directory */
+async function* packageChunks(input: Instructions | ContentFile[], options: OpenLPExportOptions, failures: MediaDownloadFailure[]): AsyncGenerator<Uint8Array> {
+  const blocks = Array.isArray(input) ? blocksFromPlaylist(input) : blocksFromInstructions(input);
+  const store = new MediaStore(options, failures);
+  const zip = new ZipWriter();
+
+  const items: Record<string, unknown>[] = [];
+  for (const block of blocks) {
+    items.push(await serviceItem(block, store));
+    for (const entry of store.take()) yield* zip.add(entry);
+  }
+
+  const core = { openlp_core: { "lite-service": options.media === "reference", "service-theme": null, "openlp-servicefile-version": 2 } };
+  yield* zip.add({ name: "service_data.osj", data: new TextEncoder().encode(JSON.stringify([core, ...items])) });
+  yield zip.finish();
+}
+
+/**
+ * Build an OpenLP .osz service package from instructions or a playlist.
+ * @returns The package bytes (write to disk in Node, or wrap in a Blob in the browser) and any media that failed to download
+ */
+export async function exportOpenLPService(input: Instructions | ContentFile[], options: OpenLPExportOptions = {}): Promise<OpenLPServicePackage> {
+  const failures: MediaDownloadFailure[] = [];
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of packageChunks(input, options, failures)) chunks.push(chunk);
+  return { bytes: concatBytes(chunks), failures };
+}
+
+/**
+ * Same package as exportOpenLPService, streamed: each media file is written out as soon as it downloads,
+ * so only one file is held in memory at a time.
+ */
+export function exportOpenLPServiceStream(input: Instructions | ContentFile[], options: OpenLPExportOptions = {}): OpenLPServiceStream {
+  const failures: MediaDownloadFailure[] = [];
+  const chunks = packageChunks(input, options, failures);
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    }
+  });
+  return { stream, failures };
+}
@@ -0,0 +1,193 @@
+import type { ContentFile, MediaType } from "../interfaces";
+import { detectMediaType } from "../utils";
+
+/**
+ * Standard serializations of a ContentFile[] playlist:
+ *   - Extended M3U/M3U8 (VLC, mpv and most players)
+ *   - XSPF (VLC, many desktop players)
+ *   - A JSON manifest for our own players
+ * Each carries title, seconds, thumbnail, url vs streamUrl and loop flags. M3U and XSPF add VLC
+ * loop options plus a private extension holding those fields, so our own files import back unchanged.
+ * Provider bookkeeping (mediaId, pingbackUrl, decryptionKey, providerData) is not written.
+ */
+
+export interface PlaylistExportOptions {
+  /** Playlist name */
+  name?: string;
+  /** Use streamUrl (e.g. HLS) as the playable location when a file has one (default: false) */
+  preferStream?: boolean;
+}
+
+export interface PlaylistManifest {
+  version: 1;
+  name?: string;
+  items: PlaylistManifestItem[];
+}
+
+export interface PlaylistManifestItem {
+  id: string;
+  title: string;
+  mediaType: MediaType;
+  url: string;
+  streamUrl?: string;
+  downloadUrl?: string;
+  thumbnail?: string;
+  seconds?: number;
+  loop?: boolean;
+  loopVideo?: boolean;
+}
+
+const M3U_FILE_TAG = "#EXTCPH:";
+const XSPF_APPLICATION = "https://churchapps.org/content-provider-helper";
+const VLC_APPLICATION = "http://www.videolan.org/vlc/playlist/0";
+const VLC_REPEAT_FOREVER = "input-repeat=65535";
+
+function toManifestItem(file: ContentFile): PlaylistManifestItem {
+  const item: PlaylistManifestItem = { id: file.id, title: file.title, mediaType: file.mediaType, url: file.url };
+  if (file.streamUrl) item.streamUrl = file.streamUrl;
+  if (file.downloadUrl) item.downloadUrl = file.downloadUrl;
+  if (file.thumbnail) item.thumbnail = file.thumbnail;
+  if (file.seconds !== undefined) item.seconds = file.seconds;
+  if (file.loop !== undefined) item.loop = file.loop;
+  if (file.loopVideo !== undefined) item.loopVideo = file.loopVideo;
+  return item;
+}
+
+function fromManifestItem(item: PlaylistManifestItem): ContentFile {
+  return { type: "file", ...item };
+}
+
+function location(file: ContentFile, options: PlaylistExportOptions): string {
+  return options.preferStream && file.streamUrl ? file.streamUrl : file.url;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function unescapeXml(value: string): string {
+  return value.replace(/&quot;/g, "\"").replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
+
+// Other players read title, duration, logo and loop options; our #EXTCPH tag keeps the remaining fields
+export function playlistToM3U(files: ContentFile[], options: PlaylistExportOptions = {}): string {
+  const lines = ["#EXTM3U"];
+  if (options.name) lines.push(`#PLAYLIST:${options.name}`);
+
+  for (const file of files) {
+    const logo = file.thumbnail ? ` tvg-logo="${file.thumbnail.replace(/"/g, "%22")}"` : "";
+    lines.push(`#EXTINF:${file.seconds ?? -1}${logo},${file.title.replace(/[\r\n]+/g, " ")}`);
+    if (file.loop || file.loopVideo) lines.push(`#EXTVLCOPT:${VLC_REPEAT_FOREVER}`);
+    lines.push(M3U_FILE_TAG + JSON.stringify(toManifestItem(file)));
+    lines.push(location(file, options));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Parse an extended M3U/M3U8 playlist. Files written by playlistToM3U round-trip exactly;
+ * plain playlists yield files built from #EXTINF and the location line.
+ */
+export function m3uToPlaylist(text: string): { name?: string; files: ContentFile[] } {
+  const files: ContentFile[] = [];
+  let name: string | undefined;
+  let pending: { title?: string; seconds?: number; thumbnail?: string; loop?: boolean; item?: PlaylistManifestItem } = {};
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line === "#EXTM3U") continue;
+
+    if (line.startsWith("#PLAYLIST:")) name = line.slice(10);
+    else if (line.startsWith("#EXTINF:")) {
+      const match = line.match(/^#EXTINF:(-?[\d.]+)([^,]*),(.*)$/);
+      if (match) {
+        const seconds = parseFloat(match[1]);
+        const logo = match[2].match(/tvg-logo="([^"]*)"/);
+        pending = { ...pending, title: match[3], seconds: seconds >= 0 ? seconds : undefined, thumbnail: logo?.[1] };
+      }
+    } else if (line.startsWith("#EXTVLCOPT:")) {
+      if (line.includes("input-repeat")) pending.loop = true;
+    } else if (line.startsWith(M3U_FILE_TAG)) {
+      try {
+        pending.item = JSON.parse(line.slice(M3U_FILE_TAG.length));
+      } catch {
+        // Ignore a damaged tag and fall back to the standard fields
+      }
+    } else if (!line.startsWith("#")) {
+      if (pending.item) files.push(fromManifestItem(pending.item));
+      else files.push({ type: "file", id: `m3u-${files.length}`, title: pending.title || line.split("/").pop() || line, mediaType: detectMediaType(line), url: line, seconds: pending.seconds, thumbnail: pending.thumbnail, loop: pending.loop });
+      pending = {};
+    }
+  }
+
+  return { name, files };
+}
+
+// Durations are written in milliseconds as XSPF requires; our extension element keeps the remaining fields
+export function playlistToXSPF(files: ContentFile[], options: PlaylistExportOptions = {}): string {
+  const tracks = files.map((file) => {
+    const parts = [`<location>${escapeXml(location(file, options))}</location>`, `<identifier>${escapeXml(file.id)}</identifier>`, `<title>${escapeXml(file.title)}</title>`];
+    if (file.seconds !== undefined) parts.push(`<duration>${Math.round(file.seconds * 1000)}</duration>`);
+    if (file.thumbnail) parts.push(`<image>${escapeXml(file.thumbnail)}</image>`);
+    if (file.loop || file.loopVideo) parts.push(`<extension application="${VLC_APPLICATION}"><vlc:option>${VLC_REPEAT_FOREVER}</vlc:option></extension>`);
+    parts.push(`<extension application="${XSPF_APPLICATION}"><cph:file>${escapeXml(JSON.stringify(toManifestItem(file)))}</cph:file></extension>`);
+    return `    <track>\n      ${parts.join("\n      ")}\n    </track>`;
+  });
+
+  return "<?xml version=\"1.0\" encoding=\"UTF-8\"?>\n"
+    + `<playlist version="1" xmlns="http://xspf.org/ns/0/" xmlns:vlc="${VLC_APPLICATION}" xmlns:cph="${XSPF_APPLICATION}">\n`
+    + (options.name ? `  <title>${escapeXml(options.name)}</title>\n` : "")
+    + `  <trackList>\n${tracks.join("\n")}\n  </trackList>\n`
+    + "</playlist>\n";
+}
+
+function xmlText(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? unescapeXml(match[1].trim()) : undefined;
+}
+
+/**
+ * Parse an XSPF playlist. Tracks written by playlistToXSPF round-trip exactly.
+ */
+export function xspfToPlaylist(xml: string): { name?: string; files: ContentFile[] } {
+  const files: ContentFile[] = [];
+  const trackList = xml.match(/<trackList>([\s\S]*?)<\/trackList>/)?.[1] || "";
+  const name = xmlText(xml.replace(/<trackList>[\s\S]*<\/trackList>/, ""), "title");
+
+  for (const match of trackList.matchAll(/<track>([\s\S]*?)<\/track>/g)) {
+    const track = match[1];
+    const stored = xmlText(track, "cph:file");
+    if (stored) {
+      try {
+        files.push(fromManifestItem(JSON.parse(stored)));
+        continue;
+      } catch {
+        // Fall back to the standard fields
+      }
+    }
+
+    const url = xmlText(track, "location");
+    if (!url) continue;
+    const duration = xmlText(track, "duration");
+    files.push({ type: "file", id: xmlText(track, "identifier") || `xspf-${files.length}`, title: xmlText(track, "title") || url.split("/").pop() || url, mediaType: detectMediaType(url), url, seconds: duration ? parseInt(duration, 10) / 1000 : undefined, thumbnail: xmlText(track, "image"), loop: track.includes("input-repeat") || undefined });
+  }
+
+  return { name, files };
+}
+
+/**
+ * JSON manifest for our own players.
+ */
+export function playlistToManifest(files: ContentFile[], options: PlaylistExportOptions = {}): PlaylistManifest {
+  return { version: 1, ...(options.name ? { name: options.name } : {}), items: files.map(toManifestItem) };
+}
+
+/**
+ * Read a JSON playlist manifest (object or JSON text). Items without a url are skipped.
+ */
+export function manifestToPlaylist(manifest: PlaylistManifest | string): { name?: string; files: ContentFile[] } {
+  const data: PlaylistManifest = typeof manifest === "string" ? JSON.parse(manifest) : manifest;
+  const items = Array.isArray(data?.items) ? data.items : [];
+  return { name: data?.name, files: items.filter(item => item && typeof item.url === "string").map(item => fromManifestItem({ ...item, id: item.id || item.url, title: item.title || item.url, mediaType: item.mediaType || detectMediaType(item.url) })) };
+}
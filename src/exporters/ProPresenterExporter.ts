@@ -0,0 +1,150 @@
+import type { Plan, Instructions, ContentFile, HttpTransport, MediaDownloadFailure } from "../interfaces";
+import { instructionsToPresentations } from "../FormatConverters";
+import { slugify, hashString } from "../utils";
+import { httpFetch } from "../helpers/HttpTransport";
+import { createZip } from "./zip";
+
+/**
+ * ProPresenter 6 playlist (.pro6plx) export.
+ *
+ * Mapping:
+ *   plan / instructions name  -> playlist
+ *   section                   -> RVHeaderCue
+ *   file in a presentation    -> RVMediaCue with an RVVideoElement (video, audio) or RVImageElement (image)
+ *   document / text / web     -> skipped and listed in `skipped`
+ *   loop / loopVideo          -> playbackBehavior 1 (loop)
+ *   seconds                   -> playbackBehavior 2 (advance to next cue) with endPoint = seconds
+ *
+ * Building the playlist needs no network access: media file names are derived from the URLs.
+ * Downloading the media is a separate, optional step (downloadProPresenterMedia).
+ */
+
+export interface ProPresenterMediaFile {
+  url: string;
+  /** Path inside the package, referenced by the playlist (e.g. "media/intro-1a2b3c.mp4") */
+  fileName: string;
+}
+
+export interface ProPresenterPlaylist {
+  name: string;
+  /** The data.pro6pl document */
+  xml: string;
+  media: ProPresenterMediaFile[];
+  /** Documents, text files and web pages, which ProPresenter cannot play as media cues */
+  skipped: ContentFile[];
+}
+
+export interface DownloadedMedia {
+  fileName: string;
+  data: Uint8Array;
+}
+
+export interface ProPresenterMediaDownload {
+  media: DownloadedMedia[];
+  /** Files that could not be downloaded; their cues still reference the file name, so ProPresenter shows them as missing */
+  failures: MediaDownloadFailure[];
+}
+
+const PLAYBACK_STOP = 0;
+const PLAYBACK_LOOP = 1;
+const PLAYBACK_NEXT = 2;
+
+/** Stable UUID-shaped id so re-exporting the same content yields the same document */
+function uuidFrom(seed: string): string {
+  const hex = hashString(seed) + hashString(seed, 0x01000193) + hashString(seed, 0x050c5d1f) + hashString(seed, 0x2f8a1b3d);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`.toUpperCase();
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function mediaFileName(file: ContentFile): string {
+  const url = file.downloadUrl || file.url;
+  const match = url.split(/[?#]/)[0].match(/\.[a-z0-9]{2,4}$/i);
+  const extension = match && match[0].toLowerCase() !== ".m3u8" ? match[0].toLowerCase() : file.mediaType === "audio" ? ".mp3" : file.mediaType === "video" ? ".mp4" : ".jpg";
+  return `media/${slugify(file.title) || "media"}-${hashString(url).slice(0, 6)}${extension}`;
+}
+
+/** position makes the UUIDs unique when the same file appears more than once in a playlist */
+function mediaCue(file: ContentFile, fileName: string, position: string): string {
+  const behavior = file.loop || file.loopVideo ? PLAYBACK_LOOP : file.seconds ? PLAYBACK_NEXT : PLAYBACK_STOP;
+  const endPoint = file.seconds && behavior === PLAYBACK_NEXT ? ` endPoint="${file.seconds}"` : "";
+  const element = file.mediaType === "image" ? "RVImageElement" : "RVVideoElement";
+  const name = escapeXml(file.title);
+  return `<RVMediaCue UUID="${uuidFrom(`cue:${position}:${file.id}`)}" displayName="${name}" actionType="0" enabled="true" timeStamp="0" delayTime="0" alignment="4" behavior="${behavior}" rvXMLIvarName="">`
+    + `<${element} UUID="${uuidFrom(`element:${position}:${file.id}`)}" displayName="${name}" source="${escapeXml(fileName)}" playbackBehavior="${behavior}"${endPoint} scaleBehavior="0" rvXMLIvarName="element"/>`
+    + "</RVMediaCue>";
+}
+
+// LOSSY: Presentations without files (text-only actions) have no ProPresenter cue and are skipped,
+// as are documents, text files and web pages (reported in skipped)
+export function presentationsToProPresenterPlaylist(plan: Plan): ProPresenterPlaylist {
+  const media = new Map<string, ProPresenterMediaFile>();
+  const cues: string[] = [];
+  const skipped: ContentFile[] = [];
+
+  plan.sections.forEach((section, s) => {
+    cues.push(`<RVHeaderCue UUID="${uuidFrom(`header:${s}:${section.id}`)}" displayName="${escapeXml(section.name)}" actionType="0" enabled="false" timeStamp="0" delayTime="0"/>`);
+    section.presentations.forEach((presentation, p) => {
+      presentation.files.forEach((file, f) => {
+        const url = file.downloadUrl || file.url;
+        if (!url) return;
+        if (file.mediaType !== "video" && file.mediaType !== "audio" && file.mediaType !== "image") {
+          skipped.push(file);
+          return;
+        }
+        if (!media.has(url)) media.set(url, { url, fileName: mediaFileName(file) });
+        cues.push(mediaCue(file, media.get(url)!.fileName, `${s}.${p}.${f}`));
+      });
+    });
+  });
+
+  const name = escapeXml(plan.name);
+  const xml = "<?xml version=\"1.0\" encoding=\"utf-8\" standalone=\"yes\"?>"
+    + "<RVPlaylistDocument versionNumber=\"600\" os=\"1\" buildNumber=\"6016\">"
+    + `<RVPlaylistNode displayName="root" UUID="${uuidFrom(`root:${plan.id}`)}" type="0" isExpanded="true" hotFolderType="2" rvXMLIvarName="rootNode">`
+    + "<array rvXMLIvarName=\"children\">"
+    + `<RVPlaylistNode displayName="${name}" UUID="${uuidFrom(`playlist:${plan.id}`)}" type="3" isExpanded="false" hotFolderType="2">`
+    + `<array rvXMLIvarName="children">${cues.join("")}</array>`
+    + "<array rvXMLIvarName=\"events\"/>"
+    + "</RVPlaylistNode>"
+    + "</array>"
+    + "<array rvXMLIvarName=\"events\"/>"
+    + "</RVPlaylistNode>"
+    + "<array rvXMLIvarName=\"tags\"/>"
+    + "</RVPlaylistDocument>";
+
+  return { name: plan.name, xml, media: Array.from(media.values()), skipped };
+}
+
+// LOSSY: Same as presentationsToProPresenterPlaylist; action text is dropped
+export function instructionsToProPresenterPlaylist(instructions: Instructions): ProPresenterPlaylist {
+  return presentationsToProPresenterPlaylist(instructionsToPresentations(instructions, slugify(instructions.name || "playlist")));
+}
+
+/**
+ * Download the media a playlist references. Files that fail to download are left out and listed in failures.
+ */
+export async function downloadProPresenterMedia(playlist: ProPresenterPlaylist, options: { transport?: HttpTransport } = {}): Promise<ProPresenterMediaDownload> {
+  const media: DownloadedMedia[] = [];
+  const failures: MediaDownloadFailure[] = [];
+  for (const file of playlist.media) {
+    try {
+      const response = await httpFetch(file.url, undefined, options.transport);
+      if (response.ok) media.push({ fileName: file.fileName, data: new Uint8Array(await response.arrayBuffer()) });
+      else failures.push({ url: file.url, fileName: file.fileName, message: `HTTP ${response.status}` });
+    } catch (error) {
+      failures.push({ url: file.url, fileName: file.fileName, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { media, failures };
+}
+
+/**
+ * Bundle a playlist (and optionally its downloaded media) as a .pro6plx package.
+ */
+export function packageProPresenterPlaylist(playlist: ProPresenterPlaylist, media: DownloadedMedia[] = []): Uint8Array {
+  const encoder = new TextEncoder();
+  return createZip([{ name: "data.pro6pl", data: encoder.encode(playlist.xml) }, ...media.map(m => ({ name: m.fileName, data: m.data }))]);
+}
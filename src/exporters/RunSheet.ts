@@ -0,0 +1,269 @@
+import type { Instructions, InstructionItem, HttpTransport } from "../interfaces";
+import { buildTimeline, formatClock, type Timeline, type TimelineEntry, type TimelineOptions } from "../timeline";
+import { httpFetch } from "../helpers/HttpTransport";
+import { PdfWriter, readJpeg, type JpegImage, type PdfTextStyle } from "./pdf";
+
+/**
+ * Printable volunteer run sheets: section headings, action labels, full content text, thumbnails,
+ * durations and cumulative times, as HTML, Markdown or PDF. Times come from buildTimeline; estimated
+ * durations are marked with "~".
+ */
+
+export interface RunSheetOptions extends TimelineOptions {
+  /** Heading; defaults to the instructions name */
+  title?: string;
+  /** Show thumbnails (default: true) */
+  thumbnails?: boolean;
+}
+
+export interface RunSheetPdfOptions extends RunSheetOptions {
+  /** Used to download thumbnails; only JPEG thumbnails are embedded */
+  transport?: HttpTransport;
+  pageSize?: "letter" | "a4";
+}
+
+interface RunSheetRow {
+  kind: "section" | "item";
+  entry: TimelineEntry;
+  label: string;
+  content?: string;
+  thumbnail?: string;
+  /** Nesting below the nearest section (0 = directly in it) */
+  indent: number;
+  /** Heading level for sections, starting at 1 */
+  level: number;
+  start: string;
+  duration: string;
+  /** Time of day, when a start time was given */
+  clock?: string;
+}
+
+interface RunSheet {
+  title: string;
+  summary: string;
+  warnings: string[];
+  rows: RunSheetRow[];
+}
+
+const SECTION_TYPES = ["section", "header", "lessonSection", "providerSection"];
+
+function isSection(item: InstructionItem): boolean {
+  return SECTION_TYPES.includes(item.itemType || "");
+}
+
+function timeOfDay(date: Date): string {
+  const hours = date.getHours();
+  return `${hours % 12 || 12}:${String(date.getMinutes()).padStart(2, "0")} ${hours < 12 ? "AM" : "PM"}`;
+}
+
+function itemLabel(item: InstructionItem): string {
+  if (item.label) return item.label;
+  if (item.itemType === "file" && item.downloadUrl) return decodeURIComponent(item.downloadUrl.split(/[?#]/)[0].split("/").pop() || "Media");
+  if (item.content) return item.content.split("\n")[0].slice(0, 60);
+  return "Untitled";
+}
+
+function durationText(entry: TimelineEntry): string {
+  if (entry.source === "unknown") return "–";
+  return `${entry.source === "estimated" ? "~" : ""}${formatClock(entry.seconds)}`;
+}
+
+function buildRunSheet(instructions: Instructions, options: RunSheetOptions): { sheet: RunSheet; timeline: Timeline } {
+  const timeline = buildTimeline(instructions, options);
+  const byPath = new Map(timeline.entries.map(e => [e.path, e]));
+  const showClock = options.startTime !== undefined;
+
+  const rows = timeline.entries.map((entry): RunSheetRow => {
+    const ancestors = entry.path.split(".").slice(0, -1).map((_, i, parts) => byPath.get(parts.slice(0, i + 1).join("."))!);
+    const sectionDepth = ancestors.reduce((last, a, i) => (isSection(a.item) ? i + 1 : last), 0);
+    const content = entry.item.content && entry.item.content !== entry.item.label ? entry.item.content : undefined;
+    return {
+      kind: isSection(entry.item) ? "section" : "item",
+      entry,
+      label: itemLabel(entry.item),
+      content: isSection(entry.item) ? undefined : content,
+      thumbnail: options.thumbnails === false ? undefined : entry.item.thumbnail,
+      indent: ancestors.length - sectionDepth,
+      level: ancestors.filter(a => isSection(a.item)).length + 1,
+      start: formatClock(entry.startOffset),
+      duration: durationText(entry),
+      clock: showClock ? timeOfDay(entry.start) : undefined
+    };
+  });
+
+  let summary = `Total ${formatClock(timeline.totalSeconds)}`;
+  if (showClock) summary += ` · ${timeOfDay(timeline.start)} – ${timeOfDay(timeline.end)}`;
+  if (timeline.targetSeconds !== undefined) summary += ` · Target ${formatClock(timeline.targetSeconds)}`;
+
+  return { sheet: { title: options.title || instructions.name || "Run Sheet", summary, warnings: timeline.warnings, rows }, timeline };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `
+body { font-family: Helvetica, Arial, sans-serif; color: #222; margin: 2rem; }
+h1 { margin: 0 0 .25rem; }
+.summary { color: #555; margin: 0 0 1rem; }
+.warnings { color: #a40000; }
+table { width: 100%; border-collapse: collapse; }
+th, td { text-align: left; vertical-align: top; padding: .4rem .5rem; border-bottom: 1px solid #ddd; }
+th { font-size: .8rem; text-transform: uppercase; color: #666; }
+td.time, td.length { white-space: nowrap; width: 5rem; }
+td.time small { display: block; color: #777; }
+tr.section td { background: #f2f2f2; font-weight: bold; }
+tr.section h2, tr.section h3, tr.section h4 { margin: 0; font-size: 1rem; }
+.content { white-space: pre-wrap; margin-top: .25rem; }
+.thumb { float: right; max-width: 120px; max-height: 68px; margin-left: .5rem; }
+@media print { body { margin: 0; } tr { page-break-inside: avoid; } }`;
+
+/**
+ * Render a standalone HTML run sheet (open it in a browser and print).
+ */
+export function renderRunSheetHtml(instructions: Instructions, options: RunSheetOptions = {}): string {
+  const { sheet } = buildRunSheet(instructions, options);
+  const rows = sheet.rows.map(row => {
+    const time = `<td class="time">${row.start}${row.clock ? `<small>${row.clock}</small>` : ""}</td>`;
+    const length = `<td class="length">${row.duration}</td>`;
+    if (row.kind === "section") {
+      const tag = `h${Math.min(row.level + 1, 4)}`;
+      return `<tr class="section">${time}<td><${tag}>${escapeHtml(row.label)}</${tag}></td>${length}</tr>`;
+    }
+    const thumb = row.thumbnail ? `<img class="thumb" src="${escapeHtml(row.thumbnail)}" alt="">` : "";
+    const content = row.content ? `<div class="content">${escapeHtml(row.content)}</div>` : "";
+    return `<tr class="item">${time}<td style="padding-left: ${0.5 + row.indent * 1.25}rem">${thumb}<strong>${escapeHtml(row.label)}</strong>${content}</td>${length}</tr>`;
+  });
+  const warnings = sheet.warnings.length ? `<ul class="warnings">${sheet.warnings.map(w => `<li>${escapeHtml(w)}</li>`).join("")}</ul>` : "";
+
+  return "<!DOCTYPE html>\n"
+    + `<html><head><meta charset="utf-8"><title>${escapeHtml(sheet.title)}</title><style>${HTML_STYLE}\n</style></head><body>\n`
+    + `<h1>${escapeHtml(sheet.title)}</h1>\n<p class="summary">${escapeHtml(sheet.summary)}</p>\n${warnings}\n`
+    + `<table><thead><tr><th>Start</th><th>Item</th><th>Length</th></tr></thead><tbody>\n${rows.join("\n")}\n</tbody></table>\n`
+    + "</body></html>\n";
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\`*_[\]<>#|])/g, "\\$1");
+}
+
+/**
+ * Render a Markdown run sheet. Sections become headings and items a nested list.
+ */
+export function renderRunSheetMarkdown(instructions: Instructions, options: RunSheetOptions = {}): string {
+  const { sheet } = buildRunSheet(instructions, options);
+  const lines = [`# ${escapeMarkdown(sheet.title)}`, "", sheet.summary, ""];
+  sheet.warnings.forEach(w => lines.push(`> **Warning:** ${escapeMarkdown(w)}`, ""));
+
+  for (const row of sheet.rows) {
+    const time = row.clock ? `${row.start} · ${row.clock}` : row.start;
+    if (row.kind === "section") {
+      lines.push("", `${"#".repeat(Math.min(row.level + 1, 6))} ${escapeMarkdown(row.label)} (${row.duration})`, "", `_Starts ${time}_`, "");
+      continue;
+    }
+    const pad = "  ".repeat(row.indent);
+    lines.push(`${pad}- \`${time}\` **${escapeMarkdown(row.label)}** (${row.duration})`);
+    if (row.content) {
+      lines.push("");
+      row.content.split(/\r?\n/).forEach(line => lines.push(line.trim() ? `${pad}  ${escapeMarkdown(line)}` : ""));
+      lines.push("");
+    }
+    if (row.thumbnail) lines.push(`${pad}  ![](${row.thumbnail})`);
+  }
+
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n") + "\n";
+}
+
+async function loadThumbnails(rows: RunSheetRow[], transport?: HttpTransport): Promise<Map<string, JpegImage>> {
+  const images = new Map<string, JpegImage>();
+  for (const url of new Set(rows.map(r => r.thumbnail).filter((t): t is string => !!t))) {
+    try {
+      const response = await httpFetch(url, undefined, transport);
+      const image = response.ok ? readJpeg(new Uint8Array(await response.arrayBuffer())) : null;
+      if (image) images.set(url, image);
+    } catch {
+      // Printed without the thumbnail
+    }
+  }
+  return images;
+}
+
+/**
+ * Render a PDF run sheet. Thumbnails are downloaded and embedded when they are JPEGs.
+ * Text is limited to Latin-1 and common punctuation; other characters print as "?" and a console warning lists them.
+ */
+export async function renderRunSheetPdf(instructions: Instructions, options: RunSheetPdfOptions = {}): Promise<Uint8Array> {
+  const { sheet } = buildRunSheet(instructions, options);
+  const thumbnails = await loadThumbnails(sheet.rows, options.transport);
+  const pdf = options.pageSize === "a4" ? new PdfWriter(595.28, 841.89) : new PdfWriter(612, 792);
+
+  const margin = 48;
+  const timeWidth = 64;
+  const lengthWidth = 48;
+  const thumbWidth = 80;
+  const textLeft = margin + timeWidth;
+  const right = pdf.width - margin;
+  let y = 0;
+
+  const newPage = () => {
+    pdf.addPage();
+    y = pdf.height - margin;
+    pdf.text(right - pdf.measure(String(pdf.pageCount), { size: 8 }), margin / 2, String(pdf.pageCount), { size: 8, gray: 0.5 });
+  };
+  const ensure = (height: number) => {
+    if (y - height < margin) newPage();
+  };
+  const write = (x: number, text: string, style: PdfTextStyle, lineHeight: number) => {
+    ensure(lineHeight);
+    y -= lineHeight;
+    pdf.text(x, y, text, style);
+  };
+
+  newPage();
+  write(margin, sheet.title, { font: "bold", size: 18 }, 22);
+  write(margin, sheet.summary, { size: 10, gray: 0.35 }, 16);
+  sheet.warnings.forEach(w => write(margin, w, { size: 10, gray: 0.2 }, 14));
+  y -= 8;
+
+  for (const row of sheet.rows) {
+    const time = row.clock ? [row.start, row.clock] : [row.start];
+    const durationX = right - pdf.measure(row.duration, { size: 9 });
+
+    if (row.kind === "section") {
+      const size = row.level === 1 ? 13 : 11;
+      ensure(size + 28);
+      y -= 10;
+      pdf.line(margin, y, right, y, 0.6);
+      y -= size + 4;
+      pdf.text(margin, y, time[0], { size: 9, gray: 0.4 });
+      pdf.text(textLeft, y, row.label, { font: "bold", size });
+      pdf.text(durationX, y, row.duration, { size: 9, gray: 0.4 });
+      y -= 4;
+      continue;
+    }
+
+    const image = row.thumbnail ? thumbnails.get(row.thumbnail) : undefined;
+    const indent = row.indent * 12;
+    const textRight = right - lengthWidth - (image ? thumbWidth + 8 : 0);
+    const labelLines = pdf.wrap(row.label, textRight - textLeft - indent, { font: "bold", size: 10 });
+    const imageHeight = image ? Math.min((thumbWidth * image.height) / image.width, 60) : 0;
+    const gutterHeight = Math.max(imageHeight, time.length * 11 + 2);
+    ensure(Math.max(13 * labelLines.length, gutterHeight) + 6);
+
+    y -= 6;
+    const top = y;
+    const page = pdf.pageCount;
+    if (image) pdf.image(image, textRight + 8, top - imageHeight, (imageHeight * image.width) / image.height, imageHeight);
+    time.forEach((t, i) => pdf.text(margin, top - 11 - i * 11, t, { size: 9, gray: i === 0 ? 0 : 0.45 }));
+    pdf.text(durationX, top - 11, row.duration, { size: 9, gray: 0.3 });
+
+    labelLines.forEach(line => write(textLeft + indent, line, { font: "bold", size: 10 }, 13));
+    if (row.content) {
+      for (const line of pdf.wrap(row.content, textRight - textLeft - indent, { size: 9.5 })) write(textLeft + indent, line, { size: 9.5, gray: 0.15 }, 12);
+    }
+    if (pdf.pageCount === page) y = Math.min(y, top - gutterHeight);
+  }
+
+  if (pdf.replacedCharacters.length > 0) console.warn("[RunSheet PDF] characters the standard PDF fonts cannot show were printed as ?:", pdf.replacedCharacters.join(" "));
+  return pdf.toBytes();
+}
@@ -0,0 +1,4 @@
+export { exportOpenLPService, exportOpenLPServiceStream, type OpenLPExportOptions, type OpenLPServicePackage, type OpenLPServiceStream } from "./OpenLPExporter";
+export { presentationsToProPresenterPlaylist, instructionsToProPresenterPlaylist, downloadProPresenterMedia, packageProPresenterPlaylist, type ProPresenterPlaylist, type ProPresenterMediaFile, type DownloadedMedia, type ProPresenterMediaDownload } from "./ProPresenterExporter";
+export { playlistToM3U, m3uToPlaylist, playlistToXSPF, xspfToPlaylist, playlistToManifest, manifestToPlaylist, type PlaylistExportOptions, type PlaylistManifest, type PlaylistManifestItem } from "./PlaylistFormats";
+export { renderRunSheetHtml, renderRunSheetMarkdown, renderRunSheetPdf, type RunSheetOptions, type RunSheetPdfOptions } from "./RunSheet";
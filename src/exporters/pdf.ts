@@ -0,0 +1,218 @@
+/**
+ * Minimal PDF writer (standard Helvetica fonts, text, lines and JPEG images) so exporters can
+ * produce printable documents in Node and in the browser without dependencies.
+ * The standard fonts only cover WinAnsiEncoding (Latin-1 plus common punctuation); any other character,
+ * e.g. Greek, Cyrillic, CJK or emoji, is drawn as "?" and listed in PdfWriter.replacedCharacters.
+ */
+
+import { concatBytes } from "./zip";
+
+export type PdfFont = "regular" | "bold";
+
+export interface PdfTextStyle {
+  font?: PdfFont;
+  size?: number;
+  /** 0 (black) to 1 (white) */
+  gray?: number;
+}
+
+export interface JpegImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  components: number;
+}
+
+/** Helvetica advance widths (1/1000 em) for characters 32-126 */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+/** Helvetica-Bold is slightly wider; scaling keeps wrapping safe without a second table */
+const BOLD_SCALE = 1.08;
+
+/** Unicode punctuation that WinAnsiEncoding has a slot for */
+const WIN_ANSI: Record<string, number> = { "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "…": 0x85, "€": 0x80, "™": 0x99 };
+
+/** Characters outside WinAnsiEncoding become "?" and are added to `replaced` */
+function toWinAnsi(text: string, replaced?: Set<string>): string {
+  let result = "";
+  for (const char of text.normalize("NFC")) {
+    const code = char.charCodeAt(0);
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) result += char;
+    else if (WIN_ANSI[char]) result += String.fromCharCode(WIN_ANSI[char]);
+    else if (char === "\t") result += " ";
+    else {
+      result += "?";
+      replaced?.add(char);
+    }
+  }
+  return result;
+}
+
+function binary(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+function num(value: number): string {
+  return (Math.round(value * 100) / 100).toString();
+}
+
+/**
+ * Read the size of a baseline or progressive JPEG. Returns null for anything else.
+ */
+export function readJpeg(data: Uint8Array): JpegImage | null {
+  if (data[0] !== 0xff || data[1] !== 0xd8) return null;
+  let i = 2;
+  while (i + 9 < data.length) {
+    if (data[i] !== 0xff) return null;
+    const marker = data[i + 1];
+    const length = (data[i + 2] << 8) | data[i + 3];
+    if (marker >= 0xc0 && marker <= 0xc2) {
+      const height = (data[i + 5] << 8) | data[i + 6];
+      const width = (data[i + 7] << 8) | data[i + 8];
+      const components = data[i + 9];
+      return width && height && (components === 1 || components === 3) ? { data, width, height, components } : null;
+    }
+    i += 2 + length;
+  }
+  return null;
+}
+
+export class PdfWriter {
+  readonly width: number;
+  readonly height: number;
+  private readonly pages: string[][] = [];
+  private readonly images: JpegImage[] = [];
+  private readonly replaced = new Set<string>();
+
+  constructor(width: number = 612, height: number = 792) {
+    this.width = width;
+    this.height = height;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /** Characters drawn so far that the standard fonts cannot show and were printed as "?" */
+  get replacedCharacters(): string[] {
+    return Array.from(this.replaced);
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  /** Width of the text in points */
+  measure(text: string, style: PdfTextStyle = {}): number {
+    let units = 0;
+    for (const char of toWinAnsi(text)) {
+      const code = char.charCodeAt(0);
+      units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+    }
+    return (units / 1000) * (style.size ?? 10) * (style.font === "bold" ? BOLD_SCALE : 1);
+  }
+
+  /** Split text into lines no wider than maxWidth, keeping explicit line breaks */
+  wrap(text: string, maxWidth: number, style: PdfTextStyle = {}): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.measure(candidate, style) <= maxWidth || !line) line = candidate;
+        else {
+          lines.push(line);
+          line = word;
+        }
+        while (this.measure(line, style) > maxWidth && line.length > 1) {
+          let cut = line.length - 1;
+          while (cut > 1 && this.measure(line.slice(0, cut), style) > maxWidth) cut--;
+          lines.push(line.slice(0, cut));
+          line = line.slice(cut);
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /** Draw text with its baseline at y (measured from the bottom of the page) */
+  text(x: number, y: number, text: string, style: PdfTextStyle = {}): void {
+    const escaped = toWinAnsi(text, this.replaced).replace(/[\\()]/g, m => `\\${m}`);
+    this.current().push(`BT /${style.font === "bold" ? "F2" : "F1"} ${num(style.size ?? 10)} Tf ${num(style.gray ?? 0)} g ${num(x)} ${num(y)} Td (${escaped}) Tj ET`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, gray: number = 0.75): void {
+    this.current().push(`${num(gray)} G 0.5 w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+  }
+
+  /** Draw a JPEG with its lower-left corner at (x, y) */
+  image(image: JpegImage, x: number, y: number, width: number, height: number): void {
+    let index = this.images.indexOf(image);
+    if (index < 0) index = this.images.push(image) - 1;
+    this.current().push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(y)} cm /Im${index + 1} Do Q`);
+  }
+
+  toBytes(): Uint8Array {
+    if (this.pages.length === 0) this.addPage();
+    const parts: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const push = (bytes: Uint8Array) => {
+      parts.push(bytes);
+      length += bytes.length;
+    };
+    const object = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = length;
+      push(binary(`${id} 0 obj\n${body}\n`));
+      if (stream) {
+        push(binary("stream\n"));
+        push(stream);
+        push(binary("\nendstream\n"));
+      }
+      push(binary("endobj\n"));
+    };
+
+    const imageIds = this.images.map((_, i) => 5 + i);
+    const firstPageId = 5 + this.images.length;
+    const pageIds = this.pages.map((_, i) => firstPageId + i * 2);
+
+    push(binary("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n"));
+    object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+    object(3, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    object(4, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+    this.images.forEach((image, i) => {
+      const colorSpace = image.components === 1 ? "/DeviceGray" : "/DeviceRGB";
+      object(imageIds[i], `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`, image.data);
+    });
+
+    const xObjects = imageIds.length ? ` /XObject << ${imageIds.map((id, i) => `/Im${i + 1} ${id} 0 R`).join(" ")} >>` : "";
+    this.pages.forEach((commands, i) => {
+      const content = binary(commands.join("\n"));
+      object(pageIds[i], `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${pageIds[i] + 1} 0 R >>`);
+      object(pageIds[i] + 1, `<< /Length ${content.length} >>`, content);
+    });
+
+    const count = firstPageId + this.pages.length * 2;
+    const xrefOffset = length;
+    let xref = `xref\n0 ${count}\n0000000000 65535 f \n`;
+    for (let id = 1; id < count; id++) xref += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+    push(binary(`${xref}trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`));
+    return concatBytes(parts);
+  }
+
+  private current(): string[] {
+    if (this.pages.length === 0) this.addPage();
+    return this.pages[this.pages.length - 1];
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Minimal ZIP writer (stored entries, no compression) so exporters can produce archives
+ * in Node and in the browser without dependencies. There is no ZIP64 support: entries and archives
+ * are limited to 4 GB and 65535 entries, and going over either throws instead of writing a corrupt archive.
+ */
+
+const MAX_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Writes a ZIP archive one entry at a time, so entries can be streamed out as soon as they are ready.
+ * Concatenate every add() result in order, then the finish() result.
+ */
+export class ZipWriter {
+  private readonly encoder = new TextEncoder();
+  private readonly time: number;
+  private readonly date: number;
+  private readonly centralParts: Uint8Array[] = [];
+  private offset = 0;
+  private count = 0;
+
+  constructor(modified: Date = new Date()) {
+    const { time, date } = dosDateTime(modified);
+    this.time = time;
+    this.date = date;
+  }
+
+  /** The local header and data for one entry */
+  add(entry: ZipEntry): Uint8Array[] {
+    const name = this.encoder.encode(entry.name);
+    const size = entry.data.length;
+    if (this.count >= MAX_ENTRIES) throw new Error(`ZIP archives are limited to ${MAX_ENTRIES} entries`);
+    if (size > MAX_SIZE) throw new Error(`${entry.name} is larger than the 4 GB ZIP entry limit`);
+    if (this.offset > MAX_SIZE) throw new Error(`ZIP archive is larger than the 4 GB limit at ${entry.name}`);
+    const crc = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, this.time, true);
+    local.setUint16(12, this.date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, this.time, true);
+    central.setUint16(14, this.date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, this.offset, true);
+    this.centralParts.push(new Uint8Array(central.buffer), name);
+
+    this.offset += 30 + name.length + size;
+    this.count++;
+    return [new Uint8Array(local.buffer), name, entry.data];
+  }
+
+  /** The central directory and end record */
+  finish(): Uint8Array {
+    const centralSize = this.centralParts.reduce((sum, p) => sum + p.length, 0);
+    if (this.offset > MAX_SIZE || centralSize > MAX_SIZE) throw new Error("ZIP archive is larger than the 4 GB limit");
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.count, true);
+    end.setUint16(10, this.count, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, this.offset, true);
+    return concatBytes([...this.centralParts, new Uint8Array(end.buffer)]);
+  }
+}
+
+/**
+ * Build a ZIP archive from the given entries.
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const writer = new ZipWriter(modified);
+  const parts = entries.flatMap(entry => writer.add(entry));
+  return concatBytes([...parts, writer.finish()]);
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
@@ -1,12 +1,22 @@
-import { ContentProviderAuthData, ContentProviderConfig } from "../interfaces";
+import { ContentProviderAuthData, ContentProviderConfig, ProviderOptions } from "../interfaces";
+import { httpFetch } from "./HttpTransport";
+import { cachedRequest } from "../cache";
+import { providerErrorFromException, providerErrorFromResponse, reportProviderError } from "../errors";
 
 export class ApiHelper {
+  constructor(private readonly options: ProviderOptions = {}) {}
+
   createAuthHeaders(auth: ContentProviderAuthData | null | undefined): Record<string, string> | null {
     if (!auth) return null;
     return { Authorization: `Bearer ${auth.access_token}`, Accept: "application/json" };
   }
 
-  async apiRequest<T>(config: ContentProviderConfig, _providerId: string, path: string, auth?: ContentProviderAuthData | null, method: "GET" | "POST" = "GET", body?: unknown): Promise<T | null> {
+  async apiRequest<T>(config: ContentProviderConfig, providerId: string, path: string, auth?: ContentProviderAuthData | null, method: "GET" | "POST" = "GET", body?: unknown): Promise<T | null> {
+    if (method === "GET") return cachedRequest(this.options.cache, providerId, path, auth, () => this.sendRequest<T>(config, providerId, path, auth, method, body));
+    return this.sendRequest<T>(config, providerId, path, auth, method, body);
+  }
+
+  private async sendRequest<T>(config: ContentProviderConfig, providerId: string, path: string, auth: ContentProviderAuthData | null | undefined, method: "GET" | "POST", body?: unknown): Promise<T | null> {
     try {
       const url = `${config.apiBase}${path}`;
       const headers: Record<string, string> = { Accept: "application/json" };
@@ -14,14 +24,14 @@ export class ApiHelper {
       if (body) headers["Content-Type"] = "application/json";
 
       const options: RequestInit = { method, headers, ...(body ? { body: JSON.stringify(body) } : {}) };
-      const response = await fetch(url, options);
+      const response = await httpFetch(url, options, this.options.transport);
 
       if (!response.ok) {
-        return null;
+        return reportProviderError(providerErrorFromResponse(response, providerId, path), null);
       }
       return await response.json();
-    } catch {
-      return null;
+    } catch (error) {
+      return reportProviderError(providerErrorFromException(error, providerId, path), null);
     }
   }
 }
@@ -1,6 +1,10 @@
-import { ContentProviderConfig, DeviceAuthorizationResponse, DeviceFlowPollResult } from "../interfaces";
+import { ContentProviderConfig, DeviceAuthorizationResponse, DeviceFlowPollResult, HttpTransport } from "../interfaces";
+import { httpFetch } from "./HttpTransport";
+import { providerErrorFromException, providerErrorFromResponse, reportProviderError } from "../errors";
 
 export class DeviceFlowHelper {
+  constructor(private readonly transport?: HttpTransport) {}
+
   supportsDeviceFlow(config: ContentProviderConfig): boolean {
     return !!config.supportsDeviceFlow && !!config.deviceAuthEndpoint;
   }
@@ -9,17 +13,17 @@ export class DeviceFlowHelper {
     if (!this.supportsDeviceFlow(config)) return null;
 
     try {
-      const response = await fetch(`${config.oauthBase}${config.deviceAuthEndpoint}`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ client_id: config.clientId, scope: config.scopes.join(" ") }) });
-      if (!response.ok) return null;
+      const response = await httpFetch(`${config.oauthBase}${config.deviceAuthEndpoint}`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ client_id: config.clientId, scope: config.scopes.join(" ") }) }, this.transport);
+      if (!response.ok) return reportProviderError(providerErrorFromResponse(response, config.id, config.deviceAuthEndpoint!), null);
       return await response.json();
-    } catch {
-      return null;
+    } catch (error) {
+      return reportProviderError(providerErrorFromException(error, config.id, config.deviceAuthEndpoint!), null);
     }
   }
 
   async pollDeviceFlowToken(config: ContentProviderConfig, deviceCode: string): Promise<DeviceFlowPollResult> {
     try {
-      const response = await fetch(`${config.oauthBase}/token`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ grant_type: "urn:ietf:params:oauth:grant-type:device_code", device_code: deviceCode, client_id: config.clientId }) });
+      const response = await httpFetch(`${config.oauthBase}/token`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ grant_type: "urn:ietf:params:oauth:grant-type:device_code", device_code: deviceCode, client_id: config.clientId }) }, this.transport);
 
       if (response.ok) {
         const data = await response.json();
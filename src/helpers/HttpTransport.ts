@@ -0,0 +1,50 @@
+import { HttpTransport } from "../interfaces";
+
+const fetchTransport: HttpTransport = (url, init) => fetch(url, init);
+
+let defaultTransport: HttpTransport = fetchTransport;
+
+/**
+ * Replace the transport used by providers that were not given one explicitly.
+ * Pass null to restore the global fetch.
+ */
+export function setDefaultHttpTransport(transport: HttpTransport | null): void {
+  defaultTransport = transport ?? fetchTransport;
+}
+
+export function getDefaultHttpTransport(): HttpTransport {
+  return defaultTransport;
+}
+
+/**
+ * Perform a request through the given transport, falling back to the current default.
+ * The default is resolved per call so setDefaultHttpTransport also affects existing provider instances.
+ */
+export function httpFetch(url: string, init?: RequestInit, transport?: HttpTransport): Promise<Response> {
+  return (transport ?? defaultTransport)(url, init);
+}
+
+export interface HttpTransportOptions {
+  /** Headers added to every request (request-specific headers win) */
+  headers?: Record<string, string>;
+  /** Sent as User-Agent; browsers ignore this header */
+  userAgent?: string;
+  /** Rewrite request URLs, e.g. to send provider traffic to a local stand-in server or an internal gateway */
+  rewriteUrl?: (url: string) => string;
+  /** Underlying transport - defaults to the global fetch (pass a proxy-aware fetch here) */
+  fetch?: HttpTransport;
+}
+
+/**
+ * Build a transport that decorates every request with the given options.
+ */
+export function createHttpTransport(options: HttpTransportOptions = {}): HttpTransport {
+  const base = options.fetch ?? fetchTransport;
+  return (url, init) => {
+    const headers = new Headers(options.headers);
+    if (options.userAgent) headers.set("User-Agent", options.userAgent);
+    new Headers(init?.headers).forEach((value, key) => headers.set(key, value));
+    const targetUrl = options.rewriteUrl ? options.rewriteUrl(url) : url;
+    return base(targetUrl, { ...init, headers });
+  };
+}
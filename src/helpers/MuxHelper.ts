@@ -0,0 +1,97 @@
+import { ContentFile } from "../interfaces";
+
+export interface MuxHelperOptions {
+  /** Custom playback domain (default: https://stream.mux.com) */
+  streamBase?: string;
+  /** Custom image domain (default: https://image.mux.com) */
+  imageBase?: string;
+}
+
+export interface MuxStreamOptions {
+  /** Cap the adaptive ladder, e.g. 720 for 720p */
+  maxResolution?: number;
+  minResolution?: number;
+  /** Signed playback token */
+  token?: string;
+}
+
+export interface MuxThumbnailOptions {
+  /** Seconds into the video (default: Mux picks the middle) */
+  time?: number;
+  width?: number;
+  height?: number;
+  fitMode?: "preserve" | "stretch" | "crop" | "smartcrop" | "pad";
+  format?: "jpg" | "png" | "webp";
+  token?: string;
+}
+
+export interface MuxAnimatedOptions {
+  /** Seconds into the video where the preview starts (default: 0) */
+  start?: number;
+  /** Where it ends; Mux caps previews at 10 seconds */
+  end?: number;
+  width?: number;
+  height?: number;
+  fps?: number;
+  format?: "gif" | "webp";
+  token?: string;
+}
+
+/** Static MP4 renditions: "capped-1080p" and "highest" for current assets, "low" | "medium" | "high" for legacy ones, or a height such as "720p" */
+export type MuxMp4Rendition = "capped-1080p" | "highest" | "low" | "medium" | "high" | `${number}p`;
+
+const MUX_PLAYBACK_ID = /^https?:\/\/(?:stream|image)\.mux\.com\/([A-Za-z0-9]+)(?:[/.?#]|$)/;
+
+function query(params: Record<string, string | number | undefined>): string {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) search.set(key, String(value));
+  });
+  const text = search.toString();
+  return text ? `?${text}` : "";
+}
+
+export class MuxHelper {
+  private readonly streamBase: string;
+  private readonly imageBase: string;
+
+  constructor(options: MuxHelperOptions = {}) {
+    this.streamBase = (options.streamBase ?? "https://stream.mux.com").replace(/\/$/, "");
+    this.imageBase = (options.imageBase ?? "https://image.mux.com").replace(/\/$/, "");
+  }
+
+  /** Playback id from a stream.mux.com or image.mux.com URL */
+  playbackIdFromUrl(url: string): string | null {
+    return url.match(MUX_PLAYBACK_ID)?.[1] ?? null;
+  }
+
+  hlsUrl(playbackId: string, options: MuxStreamOptions = {}): string {
+    const resolution = (height?: number) => (height ? `${height}p` : undefined);
+    return `${this.streamBase}/${playbackId}.m3u8${query({ max_resolution: resolution(options.maxResolution), min_resolution: resolution(options.minResolution), token: options.token })}`;
+  }
+
+  /** Only renditions enabled on the asset exist; capped-1080p is the common one */
+  mp4Url(playbackId: string, rendition: MuxMp4Rendition = "capped-1080p", token?: string): string {
+    return `${this.streamBase}/${playbackId}/${rendition}.mp4${query({ token })}`;
+  }
+
+  thumbnailUrl(playbackId: string, options: MuxThumbnailOptions = {}): string {
+    return `${this.imageBase}/${playbackId}/thumbnail.${options.format ?? "jpg"}${query({ time: options.time, width: options.width, height: options.height, fit_mode: options.fitMode, token: options.token })}`;
+  }
+
+  /** Animated preview of a section of the video */
+  animatedUrl(playbackId: string, options: MuxAnimatedOptions = {}): string {
+    return `${this.imageBase}/${playbackId}/animated.${options.format ?? "gif"}${query({ start: options.start, end: options.end, width: options.width, height: options.height, fps: options.fps, token: options.token })}`;
+  }
+
+  /** Storyboard of thumbnails for scrubbing previews; VTT for players, JSON for custom UIs */
+  storyboardUrl(playbackId: string, format: "vtt" | "json" = "vtt", token?: string): string {
+    return `${this.imageBase}/${playbackId}/storyboard.${format}${query({ token })}`;
+  }
+
+  /** Fill in a missing thumbnail and streamUrl from the file's playback id */
+  fillFile<T extends Pick<ContentFile, "muxPlaybackId" | "thumbnail" | "streamUrl">>(file: T): T {
+    if (!file.muxPlaybackId || (file.thumbnail && file.streamUrl)) return file;
+    return { ...file, thumbnail: file.thumbnail || this.thumbnailUrl(file.muxPlaybackId), streamUrl: file.streamUrl || this.hlsUrl(file.muxPlaybackId) };
+  }
+}
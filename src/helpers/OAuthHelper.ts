@@ -1,6 +1,10 @@
-import { ContentProviderAuthData, ContentProviderConfig } from "../interfaces";
+import { ContentProviderAuthData, ContentProviderConfig, HttpTransport } from "../interfaces";
+import { httpFetch } from "./HttpTransport";
+import { providerErrorFromException, providerErrorFromResponse, reportProviderError } from "../errors";
 
 export class OAuthHelper {
+  constructor(private readonly transport?: HttpTransport) {}
+
   generateCodeVerifier(): string {
     const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~";
     const length = 64;
@@ -52,16 +56,16 @@ export class OAuthHelper {
       });
 
       const tokenUrl = `${config.oauthBase}/token`;
-      const response = await fetch(tokenUrl, { method: "POST", headers: { "Content-Type": "application/x-www-form-urlencoded" }, body: params.toString() });
+      const response = await httpFetch(tokenUrl, { method: "POST", headers: { "Content-Type": "application/x-www-form-urlencoded" }, body: params.toString() }, this.transport);
 
       if (!response.ok) {
-        return null;
+        return reportProviderError(providerErrorFromResponse(response, providerId, "/token"), null);
       }
 
       const data = await response.json();
       return { access_token: data.access_token, refresh_token: data.refresh_token, token_type: data.token_type || "Bearer", created_at: Math.floor(Date.now() / 1000), expires_in: data.expires_in, scope: data.scope || config.scopes.join(" ") };
-    } catch {
-      return null;
+    } catch (error) {
+      return reportProviderError(providerErrorFromException(error, providerId, "/token"), null);
     }
   }
 }
@@ -1,6 +1,10 @@
-import { ContentProviderAuthData, ContentProviderConfig } from "../interfaces";
+import { ContentProviderAuthData, ContentProviderConfig, HttpTransport } from "../interfaces";
+import { httpFetch } from "./HttpTransport";
+import { providerErrorFromException, providerErrorFromResponse, reportProviderError } from "../errors";
 
 export class TokenHelper {
+  constructor(private readonly transport?: HttpTransport) {}
+
   isAuthValid(auth: ContentProviderAuthData | null | undefined): boolean {
     if (!auth) return false;
     return !this.isTokenExpired(auth);
@@ -8,7 +12,9 @@ export class TokenHelper {
 
   isTokenExpired(auth: ContentProviderAuthData): boolean {
     if (!auth.created_at || !auth.expires_in) return true;
-    const expiresAt = (auth.created_at + auth.expires_in) * 1000;
+    // A created_at ahead of the local clock (issuer clock skew) is treated as now
+    const issuedAt = Math.min(auth.created_at, Math.floor(Date.now() / 1000));
+    const expiresAt = (issuedAt + auth.expires_in) * 1000;
     return Date.now() > expiresAt - 5 * 60 * 1000; // 5-minute buffer
   }
 
@@ -22,13 +28,13 @@ export class TokenHelper {
         client_id: config.clientId
       });
 
-      const response = await fetch(`${config.oauthBase}/token`, { method: "POST", headers: { "Content-Type": "application/x-www-form-urlencoded" }, body: params.toString() });
-      if (!response.ok) return null;
+      const response = await httpFetch(`${config.oauthBase}/token`, { method: "POST", headers: { "Content-Type": "application/x-www-form-urlencoded" }, body: params.toString() }, this.transport);
+      if (!response.ok) return reportProviderError(providerErrorFromResponse(response, config.id, "/token"), null);
 
       const data = await response.json();
       return { access_token: data.access_token, refresh_token: data.refresh_token || auth.refresh_token, token_type: data.token_type || "Bearer", created_at: Math.floor(Date.now() / 1000), expires_in: data.expires_in, scope: data.scope || auth.scope };
-    } catch {
-      return null;
+    } catch (error) {
+      return reportProviderError(providerErrorFromException(error, config.id, "/token"), null);
     }
   }
 }
@@ -2,3 +2,5 @@ export { OAuthHelper } from "./OAuthHelper";
 export { TokenHelper } from "./TokenHelper";
 export { DeviceFlowHelper } from "./DeviceFlowHelper";
 export { ApiHelper } from "./ApiHelper";
+export { MuxHelper, type MuxHelperOptions, type MuxStreamOptions, type MuxThumbnailOptions, type MuxAnimatedOptions, type MuxMp4Rendition } from "./MuxHelper";
+export { httpFetch, createHttpTransport, setDefaultHttpTransport, getDefaultHttpTransport, type HttpTransportOptions } from "./HttpTransport";
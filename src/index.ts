@@ -9,35 +9,136 @@ export const VERSION = "0.0.5";
 export * from "./interfaces";
 
 // Utilities
-export { detectMediaType, createFolder, createFile } from "./utils";
-export { parsePath, getSegment, buildPath, appendToPath } from "./pathUtils";
-export { navigateToPath, generatePath } from "./instructionPathUtils";
+export { detectMediaType, mediaTypeFromContentType, mediaTypeFromHint, mediaTypeFromUrl, toLegacyMediaType, withLegacyMediaTypes, type MediaTypeMode, createFolder, createFile, selectRecentPlans } from "./utils";
+export { parsePath, getSegment, buildPath, appendToPath, parseContentUri, buildContentUri, CONTENT_URI_SCHEME, type ContentUri } from "./pathUtils";
+export { resolveContentUri, type ResolvedContent, type ResolveContentUriOptions } from "./contentUri";
+export { navigateToPath, generatePath, resolveInstructionPath, isStablePath, type ResolvedInstructionPath } from "./instructionPathUtils";
+export { diffInstructions, mergeInstructions, type InstructionChange, type MergeConflict, type MergeResult } from "./instructionDiff";
+export { resolvePathInfo } from "./pathInfo";
+export { browseAll, paginateItems, DEFAULT_PAGE_SIZE } from "./pagination";
+export { SearchIndex, collectFolders, indexCollected, DEFAULT_SEARCH_LIMIT } from "./search";
 export {
   estimateDuration,
   estimateImageDuration,
   estimateTextDuration,
   countWords,
   DEFAULT_DURATION_CONFIG,
-  type DurationEstimationConfig
+  DURATION_PROFILES,
+  registerDurationProfile,
+  getDurationProfile,
+  setProviderDurationProfile,
+  getProviderDurationProfile,
+  estimateItemDuration,
+  estimateInstructionsDuration,
+  type DurationEstimationConfig,
+  type DurationProfile,
+  type DurationSource,
+  type EstimatedItemDuration,
+  type InstructionsDurationEstimate
 } from "./durationUtils";
+export { buildTimeline, formatClock, type Timeline, type TimelineEntry, type TimelineSection, type TimelineOptions, type TimelineDurationSource } from "./timeline";
+export { normalizeRenditionRequest, pickRendition, heightForBandwidth, fixedRendition, upstreamRendition, muxRendition, type MuxMp4Support } from "./renditions";
+export { probeMediaDuration, readMp4Duration, parseHlsPlaylist, fillMissingDurations, sniffMediaType, type MediaProbeOptions, type MediaSniffOptions, type HlsPlaylistInfo } from "./mediaProbe";
+
+// Errors
+export {
+  ProviderError,
+  AuthError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  NetworkError,
+  InvalidResponseError,
+  TimeoutError,
+  ValidationError,
+  setProviderErrorMode,
+  getProviderErrorMode,
+  toProviderResult,
+  type ProviderErrorKind,
+  type ProviderErrorMode,
+  type ProviderResult
+} from "./errors";
+
+// Schema validation
+export {
+  PlanSchema,
+  InstructionsSchema,
+  ContentFileSchema,
+  validatePlan,
+  validateInstructions,
+  validateContentFile,
+  validatePlaylist,
+  validateAgainstSchema,
+  type JsonSchema,
+  type ValidationIssue,
+  type ValidationResult
+} from "./validation";
+
+// Instruction tree helpers (access via InstructionTree namespace)
+export * as InstructionTree from "./instructionTree";
+export type { InstructionEntry, InstructionPredicate, InstructionCriteria } from "./instructionTree";
 
 // Format conversion utilities (access via FormatConverters namespace)
 export * as FormatConverters from "./FormatConverters";
 
+// Exporters (presentation software service files, player playlists and printable run sheets)
+export {
+  exportOpenLPService,
+  exportOpenLPServiceStream,
+  presentationsToProPresenterPlaylist,
+  instructionsToProPresenterPlaylist,
+  downloadProPresenterMedia,
+  packageProPresenterPlaylist,
+  playlistToM3U,
+  m3uToPlaylist,
+  playlistToXSPF,
+  xspfToPlaylist,
+  playlistToManifest,
+  manifestToPlaylist,
+  renderRunSheetHtml,
+  renderRunSheetMarkdown,
+  renderRunSheetPdf,
+  type OpenLPExportOptions,
+  type OpenLPServicePackage,
+  type OpenLPServiceStream,
+  type ProPresenterPlaylist,
+  type ProPresenterMediaFile,
+  type DownloadedMedia,
+  type ProPresenterMediaDownload,
+  type PlaylistExportOptions,
+  type PlaylistManifest,
+  type PlaylistManifestItem,
+  type RunSheetOptions,
+  type RunSheetPdfOptions
+} from "./exporters";
+
 // Format resolver
 export { FormatResolver, type FormatResolverOptions, type ResolvedFormatMeta } from "./FormatResolver";
 
+// Auth session (automatic token refresh)
+export { AuthSession, type AuthSessionOptions, type AuthUpdatedListener } from "./AuthSession";
+
+// Provider hub (queries across every connected provider)
+export { ProviderHub, type ProviderHubOptions, type HubItem, type HubFailure, type HubResult } from "./ProviderHub";
+
 // Helper classes (for standalone use or custom providers)
-export { OAuthHelper, TokenHelper, DeviceFlowHelper, ApiHelper } from "./helpers";
+export { OAuthHelper, TokenHelper, DeviceFlowHelper, ApiHelper, MuxHelper, type MuxHelperOptions, type MuxStreamOptions, type MuxThumbnailOptions, type MuxAnimatedOptions, type MuxMp4Rendition } from "./helpers";
+
+// HTTP transport (custom headers, proxies, local stand-in servers)
+export { createHttpTransport, setDefaultHttpTransport, getDefaultHttpTransport, type HttpTransportOptions } from "./helpers";
+
+// Response cache (TTL rules, request coalescing, pluggable storage)
+export { ResponseCache, setDefaultResponseCache, getDefaultResponseCache, MemoryCacheStorage, LocalStorageCacheStorage, IndexedDbCacheStorage, FileSystemCacheStorage, type CacheRule, type ResponseCacheOptions, type ResponseCacheStorage, type CacheEntry, type CacheFileSystem } from "./cache";
 
 // Built-in providers
 export { APlayProvider } from "./providers/aPlay";
 export { SignPresenterProvider } from "./providers/signPresenter";
 export { LessonsChurchProvider } from "./providers/lessonsChurch";
-export { B1ChurchProvider } from "./providers/b1Church";
+export { B1ChurchProvider } from "./providers/b1church";
 export { PlanningCenterProvider } from "./providers/planningCenter";
-export { BibleProjectProvider } from "./providers/bibleProject";
-export { HighVoltageKidsProvider } from "./providers/highVoltage";
+export { BibleProjectProvider } from "./providers/bibleproject";
+export { HighVoltageKidsProvider } from "./providers/highvoltage";
 
 // Registry functions
 export {
@@ -0,0 +1,280 @@
+/**
+ * Compare and merge versions of the same Instructions, e.g. a volunteer's customized copy of a lesson
+ * and the publisher's updated venue. Items are matched by id, then by relatedId; items with neither
+ * are matched by position. Repeated ids are matched in order of appearance (first with first, second with second). Paths use the same dot notation as navigateToPath ("0.2.1").
+ */
+
+import type { Instructions, InstructionItem } from "./interfaces";
+
+export type InstructionChange =
+  | { type: "added"; key: string; item: InstructionItem; path: string }
+  | { type: "removed"; key: string; item: InstructionItem; path: string }
+  | { type: "moved"; key: string; item: InstructionItem; path: string; fromPath: string }
+  | { type: "relabeled"; key: string; item: InstructionItem; path: string; before?: string; after?: string }
+  | { type: "retimed"; key: string; item: InstructionItem; path: string; before?: number; after?: number }
+  | { type: "mediaChanged"; key: string; item: InstructionItem; path: string; before?: string; after?: string };
+
+export interface MergeConflict {
+  key: string;
+  /** Path of the item in the merged instructions ("" for the instructions name) */
+  path: string;
+  /** field: both sides changed a field; deleted: one side removed an item the other edited; moved: both sides moved an item */
+  type: "field" | "deleted" | "moved";
+  field?: string;
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+  /** Which side's version was kept */
+  resolution: "ours" | "theirs";
+}
+
+export interface MergeResult {
+  instructions: Instructions;
+  conflicts: MergeConflict[];
+}
+
+const MERGE_FIELDS = ["itemType", "relatedId", "label", "actionType", "content", "seconds", "downloadUrl", "thumbnail"] as const;
+
+interface Entry {
+  key: string;
+  /** Key of the parent item; "" for top-level items */
+  parentKey: string;
+  item: InstructionItem;
+  path: string;
+}
+
+function ownKey(item: InstructionItem, parentKey: string, index: number): string {
+  if (item.id) return `id:${item.id}`;
+  if (item.relatedId) return `related:${item.relatedId}`;
+  return `${parentKey}/${index}`;
+}
+
+/** Entries in document order; a repeated id or relatedId gets an occurrence suffix ("id:x#2") so every key is unique */
+function flatten(instructions: Instructions): Entry[] {
+  const entries: Entry[] = [];
+  const occurrences = new Map<string, number>();
+  const visit = (items: InstructionItem[], parentKey: string, parentPath: string) => items.forEach((item, i) => {
+    const own = ownKey(item, parentKey, i);
+    const count = (occurrences.get(own) ?? 0) + 1;
+    occurrences.set(own, count);
+    const key = count > 1 ? `${own}#${count}` : own;
+    const path = parentPath ? `${parentPath}.${i}` : String(i);
+    entries.push({ key, parentKey, item, path });
+    if (item.children) visit(item.children, key, path);
+  });
+  visit(instructions.items || [], "", "");
+  return entries;
+}
+
+/** Re-key other's entries to the matching reference entries: same id (and occurrence) first, then an unclaimed relatedId */
+function align(reference: Entry[], other: Entry[]): Entry[] {
+  const byId = new Map(reference.filter(e => e.item.id).map(e => [e.key, e]));
+  const claimed = new Set<string>();
+  const renamed = new Map<string, string>();
+
+  for (const entry of other) {
+    const match = entry.item.id ? byId.get(entry.key) : undefined;
+    if (match) {
+      claimed.add(match.key);
+      renamed.set(entry.key, match.key);
+    }
+  }
+  for (const entry of other) {
+    if (renamed.has(entry.key) || !entry.item.relatedId) continue;
+    const match = reference.find(e => !claimed.has(e.key) && e.item.relatedId === entry.item.relatedId);
+    if (match) {
+      claimed.add(match.key);
+      renamed.set(entry.key, match.key);
+    }
+  }
+
+  return other.map(e => ({ ...e, key: renamed.get(e.key) ?? e.key, parentKey: renamed.get(e.parentKey) ?? e.parentKey }));
+}
+
+function byKey(entries: Entry[]): Map<string, Entry> {
+  return new Map(entries.map(e => [e.key, e]));
+}
+
+function childOrder(entries: Entry[], parentKey: string): string[] {
+  return entries.filter(e => e.parentKey === parentKey).map(e => e.key);
+}
+
+/** Keys that keep their relative order (longest common subsequence) */
+function stableKeys(before: string[], after: string[]): Set<string> {
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const stable = new Set<string>();
+  for (let i = 0, j = 0; i < before.length && j < after.length;) {
+    if (before[i] === after[j]) {
+      stable.add(before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) i++;
+    else j++;
+  }
+  return stable;
+}
+
+/**
+ * List what changed from a to b: added, removed, moved (new parent or new order among its siblings),
+ * relabeled, retimed and media URL (downloadUrl) changes. An item can appear in several changes.
+ */
+export function diffInstructions(a: Instructions, b: Instructions): InstructionChange[] {
+  const before = flatten(a);
+  const after = align(before, flatten(b));
+  const beforeByKey = byKey(before);
+  const afterByKey = byKey(after);
+  const changes: InstructionChange[] = [];
+
+  for (const entry of before) {
+    if (!afterByKey.has(entry.key)) changes.push({ type: "removed", key: entry.key, item: entry.item, path: entry.path });
+  }
+
+  const reordered = new Set<string>();
+  for (const parentKey of new Set(after.map(e => e.parentKey))) {
+    const common = (keys: string[]) => keys.filter(k => beforeByKey.get(k)?.parentKey === parentKey && afterByKey.get(k)?.parentKey === parentKey);
+    const beforeOrder = common(childOrder(before, parentKey));
+    const afterOrder = common(childOrder(after, parentKey));
+    const stable = stableKeys(beforeOrder, afterOrder);
+    afterOrder.filter(k => !stable.has(k)).forEach(k => reordered.add(k));
+  }
+
+  for (const entry of after) {
+    const { key, item, path } = entry;
+    const previous = beforeByKey.get(key);
+    if (!previous) {
+      changes.push({ type: "added", key, item, path });
+      continue;
+    }
+    if (previous.parentKey !== entry.parentKey || reordered.has(key)) changes.push({ type: "moved", key, item, path, fromPath: previous.path });
+    if (previous.item.label !== item.label) changes.push({ type: "relabeled", key, item, path, before: previous.item.label, after: item.label });
+    if (previous.item.seconds !== item.seconds) changes.push({ type: "retimed", key, item, path, before: previous.item.seconds, after: item.seconds });
+    if (previous.item.downloadUrl !== item.downloadUrl) changes.push({ type: "mediaChanged", key, item, path, before: previous.item.downloadUrl, after: item.downloadUrl });
+  }
+
+  return changes;
+}
+
+function isEdited(entry: Entry, base: Entry): boolean {
+  return MERGE_FIELDS.some(field => entry.item[field] !== base.item[field]);
+}
+
+/** Insert keys missing from primary after their nearest placed predecessor in each fallback order */
+function mergeOrder(keys: Set<string>, primary: string[], ...fallbacks: string[][]): string[] {
+  const result = primary.filter(k => keys.has(k));
+  for (const order of fallbacks) {
+    order.forEach((key, i) => {
+      if (!keys.has(key) || result.includes(key)) return;
+      const predecessor = order.slice(0, i).reverse().find(k => result.includes(k));
+      result.splice(predecessor ? result.indexOf(predecessor) + 1 : 0, 0, key);
+    });
+  }
+  keys.forEach(key => { if (!result.includes(key)) result.push(key); });
+  return result;
+}
+
+/**
+ * Three-way merge: apply the changes made in ours and in theirs since base.
+ * Each field is merged separately, so a local relabel survives an upstream media change.
+ * When both sides changed the same thing, ours wins and a conflict is reported. An item removed on
+ * one side but edited on the other is kept (with a "deleted" conflict) so no edit is lost.
+ */
+export function mergeInstructions(base: Instructions, ours: Instructions, theirs: Instructions): MergeResult {
+  const baseEntries = flatten(base);
+  const ourEntries = align(baseEntries, flatten(ours));
+  const theirEntries = align([...baseEntries, ...ourEntries.filter(e => !baseEntries.some(b => b.key === e.key))], flatten(theirs));
+  const baseByKey = byKey(baseEntries);
+  const oursByKey = byKey(ourEntries);
+  const theirsByKey = byKey(theirEntries);
+  const conflicts: MergeConflict[] = [];
+  const pending: Omit<MergeConflict, "path">[] = [];
+
+  const nameConflict = base.name !== ours.name && base.name !== theirs.name && ours.name !== theirs.name;
+  if (nameConflict) conflicts.push({ key: "", path: "", type: "field", field: "name", base: base.name, ours: ours.name, theirs: theirs.name, resolution: "ours" });
+  const name = ours.name === base.name ? theirs.name : ours.name;
+
+  // Decide which items survive and merge their fields
+  const merged = new Map<string, InstructionItem>();
+  const keys = [...new Set([...ourEntries, ...theirEntries, ...baseEntries].map(e => e.key))];
+  for (const key of keys) {
+    const b = baseByKey.get(key);
+    const o = oursByKey.get(key);
+    const t = theirsByKey.get(key);
+
+    if (b && (!o || !t)) {
+      const survivor = o || t;
+      if (!survivor) continue;
+      if (!isEdited(survivor, b)) continue;
+      pending.push({ key, type: "deleted", base: b.item, ours: o?.item, theirs: t?.item, resolution: o ? "ours" : "theirs" });
+      merged.set(key, { ...survivor.item });
+      continue;
+    }
+
+    const item: InstructionItem = { ...(t?.item || {}), ...(o?.item || {}) };
+    for (const field of MERGE_FIELDS) {
+      const baseValue = b?.item[field];
+      const ourValue = o ? o.item[field] : baseValue;
+      const theirValue = t ? t.item[field] : baseValue;
+      const value = ourValue === baseValue ? theirValue : ourValue;
+      if (ourValue !== baseValue && theirValue !== baseValue && ourValue !== theirValue) pending.push({ key, type: "field", field, base: baseValue, ours: ourValue, theirs: theirValue, resolution: "ours" });
+      if (value === undefined) delete item[field];
+      else (item as Record<string, unknown>)[field] = value;
+    }
+    merged.set(key, item);
+  }
+
+  // Choose each surviving item's parent
+  const parents = new Map<string, string>();
+  for (const key of merged.keys()) {
+    const b = baseByKey.get(key)?.parentKey;
+    const o = oursByKey.get(key)?.parentKey;
+    const t = theirsByKey.get(key)?.parentKey;
+    const ourParent = o ?? b;
+    const theirParent = t ?? b;
+    if (b !== undefined && ourParent !== b && theirParent !== b && ourParent !== theirParent) pending.push({ key, type: "moved", base: b, ours: ourParent, theirs: theirParent, resolution: "ours" });
+    const preferred = ourParent === b ? theirParent : ourParent;
+    const parent = [preferred, ourParent, theirParent, b].find(p => p !== undefined && (p === "" || merged.has(p)));
+    parents.set(key, parent ?? "");
+  }
+
+  // Opposite moves can make an item its own ancestor; lift it to the top level
+  for (const key of parents.keys()) {
+    const seen = new Set([key]);
+    for (let p = parents.get(key)!; p; p = parents.get(p) ?? "") {
+      if (seen.has(p)) {
+        parents.set(key, "");
+        break;
+      }
+      seen.add(p);
+    }
+  }
+
+  // Order siblings: follow whichever side reordered, then slot in the other side's additions
+  const build = (parentKey: string, parentPath: string): InstructionItem[] => {
+    const children = new Set([...parents].filter(([, p]) => p === parentKey).map(([k]) => k));
+    const baseOrder = childOrder(baseEntries, parentKey);
+    const ourOrder = childOrder(ourEntries, parentKey);
+    const theirOrder = childOrder(theirEntries, parentKey);
+    const ourCommon = ourOrder.filter(k => baseOrder.includes(k));
+    const oursReordered = ourCommon.join("\n") !== baseOrder.filter(k => ourCommon.includes(k)).join("\n");
+    const order = oursReordered ? mergeOrder(children, ourOrder, theirOrder, baseOrder) : mergeOrder(children, theirOrder, ourOrder, baseOrder);
+
+    return order.map((key, i) => {
+      const path = parentPath ? `${parentPath}.${i}` : String(i);
+      pending.filter(c => c.key === key).forEach(c => conflicts.push({ ...c, path }));
+      const item = { ...merged.get(key)! };
+      const childItems = build(key, path);
+      if (childItems.length > 0) item.children = childItems;
+      else delete item.children;
+      return item;
+    });
+  };
+
+  const items = build("", "");
+  return { instructions: { ...(name !== undefined ? { name } : {}), items }, conflicts };
+}
@@ -1,13 +1,74 @@
 import { Instructions, InstructionItem } from "./interfaces";
 
 /**
- * Navigate to a specific item using a dot-notation path.
- * Path format: "0.2.1" means items[0].children[2].children[1]
+ * Instruction paths come in two formats:
+ *   - positional dot notation: "0.2.1" means items[0].children[2].children[1]
+ *   - stable: one "id@index" segment per level, joined by "/", e.g. "sec-1@0/act-9@2/file-3@1".
+ *     Ids are URI-encoded; levels without an id are just the index. Items are found by id first,
+ *     so the path survives upstream inserts and reordering, and the index is only a fallback.
+ */
+
+export interface ResolvedInstructionPath {
+  item: InstructionItem;
+  /** Positional dot-notation path of the item in these instructions */
+  indexPath: string;
+  /** "id" when every level that carries an id was found by it; "position" for positional paths or when an id fell back to its index */
+  matchedBy: "id" | "position";
+  /** An id in the path no longer exists at that level and its index was used instead, so the item is likely not the one that was saved */
+  stale: boolean;
+}
+
+export function isStablePath(path: string): boolean {
+  return path.includes("/") || path.includes("@");
+}
+
+/**
+ * Resolve a stable or positional path and report how it matched.
+ * @param options.fallback - Use the index when an id is not found (default: true); false returns null instead
+ */
+export function resolveInstructionPath(instructions: Instructions, path: string, options: { fallback?: boolean } = {}): ResolvedInstructionPath | null {
+  if (!path || !instructions?.items) return null;
+
+  const segments = isStablePath(path)
+    ? path.split("/").map(segment => segment.match(/^(?:(.*)@)?(\d+)$/))
+    : path.split(".").map(segment => segment.match(/^()(\d+)$/));
+  if (segments.some(s => !s)) return null;
+
+  let siblings: InstructionItem[] | undefined = instructions.items;
+  let item: InstructionItem | null = null;
+  const indices: number[] = [];
+  let hasIds = false;
+  let stale = false;
+
+  for (const segment of segments as RegExpMatchArray[]) {
+    const id = segment[1] ? decodeURIComponent(segment[1]) : "";
+    const index = Number(segment[2]);
+    const byId = id ? siblings?.findIndex(s => s.id === id) ?? -1 : -1;
+    if (id) hasIds = true;
+
+    if (byId >= 0) indices.push(byId);
+    else {
+      if (id && options.fallback === false) return null;
+      if (id) stale = true;
+      indices.push(index);
+    }
+
+    item = siblings?.[indices[indices.length - 1]] || null;
+    if (!item) return null;
+    siblings = item.children;
+  }
+
+  return item ? { item, indexPath: indices.join("."), matchedBy: hasIds && !stale ? "id" : "position", stale } : null;
+}
+
+/**
+ * Navigate to a specific item using a positional ("0.2.1") or stable ("sec-1@0/act-9@2") path.
  */
 export function navigateToPath(instructions: Instructions, path: string): InstructionItem | null {
   if (!path || !instructions?.items) return null;
+  if (isStablePath(path)) return resolveInstructionPath(instructions, path)?.item ?? null;
 
-  const indices = path.split('.').map(Number);
+  const indices = path.split(".").map(Number);
   if (indices.some(isNaN)) return null;
 
   let current: InstructionItem | null = instructions.items[indices[0]] || null;
@@ -19,10 +80,37 @@ export function navigateToPath(instructions: Instructions, path: string): Instru
   return current;
 }
 
+function findIndices(items: InstructionItem[], target: InstructionItem, prefix: number[]): number[] | null {
+  for (let i = 0; i < items.length; i++) {
+    if (items[i] === target) return [...prefix, i];
+    const found = items[i].children ? findIndices(items[i].children!, target, [...prefix, i]) : null;
+    if (found) return found;
+  }
+  return null;
+}
+
 /**
  * Generate a path string for an item given its position in the tree.
- * Used when selecting an item to store its path.
+ * With indices, returns the positional dot-notation path.
+ * With instructions and the selected item (by reference) or its positional path, returns the stable id-based path,
+ * or null when the item is not in the instructions.
  */
-export function generatePath(indices: number[]): string {
-  return indices.join('.');
+export function generatePath(indices: number[]): string;
+export function generatePath(instructions: Instructions, item: InstructionItem | string): string | null;
+export function generatePath(source: number[] | Instructions, item?: InstructionItem | string): string | null {
+  if (Array.isArray(source)) return source.join(".");
+  if (item === undefined) return null;
+
+  const indices = typeof item === "string" ? item.split(".").map(Number) : findIndices(source.items || [], item, []);
+  if (!indices || indices.some(isNaN)) return null;
+
+  const segments: string[] = [];
+  let siblings: InstructionItem[] | undefined = source.items;
+  for (const index of indices) {
+    const current: InstructionItem | undefined = siblings?.[index];
+    if (!current) return null;
+    segments.push(current.id ? `${encodeURIComponent(current.id)}@${index}` : String(index));
+    siblings = current.children;
+  }
+  return segments.join("/");
 }
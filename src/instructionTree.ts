@@ -0,0 +1,119 @@
+/**
+ * Query and transform helpers for InstructionItem trees (access via the InstructionTree namespace).
+ * Every path is in navigateToPath dot notation ("0.2.1") and always refers to the tree that was passed in.
+ */
+
+import type { Instructions, InstructionItem } from "./interfaces";
+import { generatePath } from "./instructionPathUtils";
+
+export interface InstructionEntry {
+  item: InstructionItem;
+  path: string;
+  parent: InstructionItem | null;
+  /** 0 for top-level items */
+  depth: number;
+}
+
+export type InstructionPredicate = (item: InstructionItem, path: string, parent: InstructionItem | null) => boolean;
+
+/** Match by itemType and/or actionType; each accepts one value or a list */
+export interface InstructionCriteria {
+  itemType?: string | string[];
+  actionType?: string | string[];
+}
+
+function matches(value: string | undefined, expected: string | string[] | undefined): boolean {
+  if (expected === undefined) return true;
+  return Array.isArray(expected) ? expected.includes(value || "") : value === expected;
+}
+
+function toPredicate(criteria: InstructionPredicate | InstructionCriteria): InstructionPredicate {
+  if (typeof criteria === "function") return criteria;
+  return (item) => matches(item.itemType, criteria.itemType) && matches(item.actionType, criteria.actionType);
+}
+
+/**
+ * Visit every item depth-first, parents before children. Return false from the visitor to skip an item's children.
+ */
+export function walk(instructions: Instructions, visitor: (entry: InstructionEntry) => void | boolean): void {
+  const visit = (items: InstructionItem[], indices: number[], parent: InstructionItem | null) => items.forEach((item, i) => {
+    const position = [...indices, i];
+    if (visitor({ item, path: generatePath(position), parent, depth: indices.length }) === false) return;
+    if (item.children) visit(item.children, position, item);
+  });
+  visit(instructions?.items || [], [], null);
+}
+
+/** Every item with its path, in walk order */
+export function flatten(instructions: Instructions): InstructionEntry[] {
+  const entries: InstructionEntry[] = [];
+  walk(instructions, entry => { entries.push(entry); });
+  return entries;
+}
+
+/** First item (in walk order) that matches */
+export function find(instructions: Instructions, predicate: InstructionPredicate): InstructionEntry | null {
+  let found: InstructionEntry | null = null;
+  walk(instructions, entry => {
+    if (found) return false;
+    if (predicate(entry.item, entry.path, entry.parent)) found = entry;
+  });
+  return found;
+}
+
+/** Item with this id, or failing that the first item with this relatedId */
+export function findById(instructions: Instructions, id: string): InstructionEntry | null {
+  return find(instructions, item => item.id === id) || find(instructions, item => item.relatedId === id);
+}
+
+/** Every item that matches, e.g. filter(instructions, { itemType: "file" }) */
+export function filter(instructions: Instructions, criteria: InstructionPredicate | InstructionCriteria): InstructionEntry[] {
+  const predicate = toPredicate(criteria);
+  return flatten(instructions).filter(entry => predicate(entry.item, entry.path, entry.parent));
+}
+
+/**
+ * Path of an item in the tree. The item is looked up by reference, so pass an item taken from these instructions.
+ */
+export function pathOf(instructions: Instructions, item: InstructionItem): string | null {
+  return find(instructions, candidate => candidate === item)?.path ?? null;
+}
+
+/**
+ * Copy the tree, transforming each item. The callback receives the original item and its path;
+ * the children of whatever it returns are replaced with the mapped original children.
+ */
+export function map(instructions: Instructions, transform: (item: InstructionItem, path: string, parent: InstructionItem | null) => InstructionItem): Instructions {
+  const visit = (items: InstructionItem[], indices: number[], parent: InstructionItem | null): InstructionItem[] => items.map((item, i) => {
+    const position = [...indices, i];
+    const mapped = { ...transform(item, generatePath(position), parent) };
+    if (item.children) mapped.children = visit(item.children, position, item);
+    else delete mapped.children;
+    return mapped;
+  });
+  return { ...instructions, items: visit(instructions?.items || [], [], null) };
+}
+
+/**
+ * Copy the tree without the items that match (and their subtrees). With removeEmpty, items whose
+ * children were all removed are dropped too. Paths passed to the predicate refer to the original tree.
+ */
+export function prune(instructions: Instructions, criteria: InstructionPredicate | InstructionCriteria, options: { removeEmpty?: boolean } = {}): Instructions {
+  const predicate = toPredicate(criteria);
+  const visit = (items: InstructionItem[], indices: number[], parent: InstructionItem | null): InstructionItem[] => {
+    const kept: InstructionItem[] = [];
+    items.forEach((item, i) => {
+      const position = [...indices, i];
+      if (predicate(item, generatePath(position), parent)) return;
+      if (!item.children) {
+        kept.push({ ...item });
+        return;
+      }
+      const children = visit(item.children, position, item);
+      if (options.removeEmpty && item.children.length > 0 && children.length === 0) return;
+      kept.push({ ...item, children });
+    });
+    return kept;
+  };
+  return { ...instructions, items: visit(instructions?.items || [], [], null) };
+}
@@ -1,3 +1,5 @@
+import type { ResponseCache } from "./cache";
+
 export interface ContentProviderAuthData {
   access_token: string;
   refresh_token: string;
@@ -7,6 +9,27 @@ export interface ContentProviderAuthData {
   scope: string;
 }
 
+/**
+ * Fetch-compatible function used for every network request a provider makes.
+ * Swap it to add headers, route through a proxy, or point providers at local stand-in servers.
+ */
+export type HttpTransport = (url: string, init?: RequestInit) => Promise<Response>;
+
+/** A media file an exporter could not download; the export still references it by file name */
+export interface MediaDownloadFailure {
+  url: string;
+  fileName: string;
+  /** HTTP status, or the network error message */
+  message: string;
+}
+
+/** Options accepted by the built-in provider constructors */
+export interface ProviderOptions {
+  transport?: HttpTransport;
+  /** Response cache for data requests; omit to use the default cache set with setDefaultResponseCache (none unless set), null to disable caching */
+  cache?: ResponseCache | null;
+}
+
 /** A single endpoint value - either a static string or a function that generates a path */
 export type EndpointValue = string | ((...args: string[]) => string);
 
@@ -67,11 +90,22 @@ export interface ContentFolder {
   path: string;
 }
 
+/**
+ * What a file holds:
+ *   video, image - media a presentation app can show
+ *   audio - playable sound (MP3, M4A, WAV...)
+ *   document - PDF, Office and Keynote files
+ *   text - plain text, Markdown and chord charts
+ *   web - pages and embeds opened in a browser
+ * FormatResolver's mediaTypes: "legacy" option (or withLegacyMediaTypes) reduces these to video and image.
+ */
+export type MediaType = "video" | "image" | "audio" | "document" | "text" | "web";
+
 export interface ContentFile {
   type: "file";
   id: string;
   title: string;
-  mediaType: "video" | "image";
+  mediaType: MediaType;
   thumbnail?: string;
   url: string;
   downloadUrl?: string;
@@ -85,6 +119,39 @@ export interface ContentFile {
   streamUrl?: string;
   /** Provider-specific metadata that varies by provider implementation */
   providerData?: Record<string, unknown>;
+  /** Folder containing the file, when known (set on search results) */
+  path?: string;
+  /** The rendition the provider chose for the requested one */
+  rendition?: ContentFileRendition;
+}
+
+/**
+ * What the caller wants to play. Providers pick the closest rendition they offer and report it on ContentFile.rendition.
+ * getPlaylist also accepts a plain number, which is treated as maxHeight.
+ */
+export interface RenditionRequest {
+  /** Tallest acceptable video height in pixels, e.g. 720 */
+  maxHeight?: number;
+  /** Available bandwidth in kbps; lowers the height when the connection cannot carry it */
+  bandwidthKbps?: number;
+  /** "download" for a file to save and play offline (MP4), "stream" for adaptive playback (HLS) */
+  prefer?: "download" | "stream";
+}
+
+/**
+ * How a provider met a RenditionRequest:
+ *   requested - the rendition satisfies the request
+ *   closest - nothing satisfies it, so the nearest rendition was used (e.g. 1080p when 720p was asked for)
+ *   fixed - the provider only has one rendition
+ *   upstream - the request was passed to the source, which chose the rendition
+ */
+export type RenditionMatch = "requested" | "closest" | "fixed" | "upstream";
+
+export interface ContentFileRendition {
+  delivery: "download" | "stream";
+  /** Height in pixels when known; for streams, the cap applied to the adaptive ladder */
+  height?: number;
+  match: RenditionMatch;
 }
 
 export type ContentItem = ContentFolder | ContentFile;
@@ -200,6 +267,63 @@ export interface ProviderCapabilities {
   playlist: boolean;
   instructions: boolean;
   mediaLicensing: boolean;
+  /** browsePage() is implemented */
+  pagination?: boolean;
+  /** search() is implemented */
+  search?: boolean;
+  /** getRecentPlans() is implemented */
+  recentPlans?: boolean;
+}
+
+export type PathSegmentKind = "folder" | "leaf" | "file";
+
+export interface PathSegmentInfo {
+  /** Raw segment value */
+  id: string;
+  /** Path up to and including this segment */
+  path: string;
+  title: string;
+  thumbnail?: string;
+  kind: PathSegmentKind;
+  /** False when the segment was not found in its parent listing (structural segment or deleted content) */
+  resolved: boolean;
+}
+
+export interface PathInfo {
+  path: string;
+  title: string;
+  thumbnail?: string;
+  kind: PathSegmentKind | "root";
+  /** One entry per path segment, for breadcrumbs */
+  segments: PathSegmentInfo[];
+  /** Formats the provider serves natively for this path */
+  formats: { playlist: boolean; presentations: boolean; instructions: boolean };
+}
+
+export interface RecentPlan {
+  folder: ContentFolder;
+  /** Date the plan is scheduled for (ISO 8601) */
+  date: string;
+}
+
+export interface SearchOptions {
+  /** Maximum results (default: 50) */
+  limit?: number;
+  /** Only return folders or only files */
+  type?: "folder" | "file";
+}
+
+export interface BrowsePageOptions {
+  /** nextCursor from the previous page; omit for the first page */
+  cursor?: string | null;
+  pageSize?: number;
+}
+
+export interface BrowsePage {
+  items: ContentItem[];
+  /** Opaque cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+  total?: number;
 }
 
 export type MediaLicenseStatus = "valid" | "expired" | "not_licensed" | "unknown";
@@ -228,7 +352,6 @@ export interface IProvider {
 
   // Core methods (required)
   browse(path?: string | null, auth?: ContentProviderAuthData | null): Promise<ContentItem[]>;
-  // getPresentations(path: string, auth?: ContentProviderAuthData | null): Promise<Plan | null>;
 
   // Auth methods (required)
   supportsDeviceFlow(): boolean;
@@ -239,9 +362,15 @@ export interface IProvider {
   exchangeCodeForTokens?(code: string, codeVerifier: string, redirectUri: string): Promise<ContentProviderAuthData | null>;
   initiateDeviceFlow?(): Promise<DeviceAuthorizationResponse | null>;
   pollDeviceFlowToken?(deviceCode: string): Promise<DeviceFlowPollResult>;
+  refreshToken?(auth: ContentProviderAuthData): Promise<ContentProviderAuthData | null>;
 
   // Optional methods - providers can implement these if they have custom logic
-  getPlaylist?(path: string, auth?: ContentProviderAuthData | null, resolution?: number): Promise<ContentFile[] | null>;
+  getPathInfo?(path: string, auth?: ContentProviderAuthData | null): Promise<PathInfo>;
+  browsePage?(path: string | null | undefined, auth?: ContentProviderAuthData | null, options?: BrowsePageOptions): Promise<BrowsePage>;
+  search?(query: string, options?: SearchOptions, auth?: ContentProviderAuthData | null): Promise<ContentItem[]>;
+  getRecentPlans?(auth?: ContentProviderAuthData | null, options?: { limit?: number }): Promise<RecentPlan[]>;
+  getPresentations?(path: string, auth?: ContentProviderAuthData | null): Promise<Plan | null>;
+  getPlaylist?(path: string, auth?: ContentProviderAuthData | null, resolution?: number | RenditionRequest): Promise<ContentFile[] | null>;
   getInstructions?(path: string, auth?: ContentProviderAuthData | null): Promise<Instructions | null>;
   checkMediaLicense?(mediaId: string, auth?: ContentProviderAuthData | null): Promise<MediaLicenseResult | null>;
 }
@@ -0,0 +1,311 @@
+/**
+ * Read real media durations: the movie header of MP4/MOV files (over HTTP range requests or from local bytes)
+ * and the segment list of HLS playlists, including Mux stream.mux.com URLs.
+ * Probes return null instead of throwing when the media cannot be read.
+ */
+
+import type { ContentFile, HttpTransport, Instructions, InstructionItem, MediaType, Plan } from "./interfaces";
+import { httpFetch } from "./helpers/HttpTransport";
+import { MuxHelper } from "./helpers/MuxHelper";
+import { detectMediaType, mediaTypeFromContentType, mediaTypeFromHint, mediaTypeFromUrl } from "./utils";
+import { flatten } from "./instructionTree";
+
+const mux = new MuxHelper();
+
+export interface MediaProbeOptions {
+  transport?: HttpTransport;
+  /** Largest moov box to download (default: 8 MB) */
+  maxMoovBytes?: number;
+  /** Milliseconds each request may take, including reading its body, before it is aborted (default: 10000) */
+  timeout?: number;
+}
+
+export interface MediaSniffOptions {
+  /** A provider's media type or MIME content type, as for detectMediaType */
+  hint?: string;
+  transport?: HttpTransport;
+}
+
+export interface HlsPlaylistInfo {
+  /** Sum of segment durations; null for master playlists and live playlists that have no end */
+  seconds: number | null;
+  /** Variant playlist URLs of a master playlist, resolved against the playlist URL */
+  variants: string[];
+}
+
+const HEADER_BYTES = 64 * 1024;
+const MAX_TOP_LEVEL_BOXES = 32;
+const DEFAULT_MAX_MOOV_BYTES = 8 * 1024 * 1024;
+const DEFAULT_TIMEOUT = 10000;
+
+interface Box {
+  type: string;
+  start: number;
+  size: number;
+  headerSize: number;
+}
+
+function readUint32(bytes: Uint8Array, at: number): number {
+  return ((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3]) >>> 0;
+}
+
+function readUint64(bytes: Uint8Array, at: number): number {
+  return readUint32(bytes, at) * 0x100000000 + readUint32(bytes, at + 4);
+}
+
+/** Box header at `at`; size 0 ("to the end") becomes the remaining length of `limit` */
+function readBox(bytes: Uint8Array, at: number, limit: number): Box | null {
+  if (at + 8 > bytes.length) return null;
+  let size = readUint32(bytes, at);
+  const type = String.fromCharCode(bytes[at + 4], bytes[at + 5], bytes[at + 6], bytes[at + 7]);
+  let headerSize = 8;
+  if (size === 1) {
+    if (at + 16 > bytes.length) return null;
+    size = readUint64(bytes, at + 8);
+    headerSize = 16;
+  } else if (size === 0) size = limit - at;
+  return size >= headerSize ? { type, start: at, size, headerSize } : null;
+}
+
+function childBoxes(bytes: Uint8Array, parent: Box): Box[] {
+  const boxes: Box[] = [];
+  const end = Math.min(parent.start + parent.size, bytes.length);
+  let at = parent.start + parent.headerSize;
+  while (at < end) {
+    const box = readBox(bytes, at, end);
+    if (!box) break;
+    boxes.push(box);
+    at += box.size;
+  }
+  return boxes;
+}
+
+/** Duration from a complete moov box: mvhd, or mehd for fragmented files whose mvhd duration is 0 */
+function moovDuration(bytes: Uint8Array, moov: Box): number | null {
+  const children = childBoxes(bytes, moov);
+  const mvhd = children.find(b => b.type === "mvhd");
+  if (!mvhd) return null;
+  const at = mvhd.start + mvhd.headerSize;
+  const version = bytes[at];
+  const timescale = version === 1 ? readUint32(bytes, at + 20) : readUint32(bytes, at + 12);
+  let duration = version === 1 ? readUint64(bytes, at + 24) : readUint32(bytes, at + 16);
+  if (version !== 1 && duration === 0xffffffff) duration = 0;
+
+  if (!duration) {
+    const mvex = children.find(b => b.type === "mvex");
+    const mehd = mvex ? childBoxes(bytes, mvex).find(b => b.type === "mehd") : undefined;
+    if (mehd) {
+      const mehdAt = mehd.start + mehd.headerSize;
+      duration = bytes[mehdAt] === 1 ? readUint64(bytes, mehdAt + 4) : readUint32(bytes, mehdAt + 4);
+    }
+  }
+  return timescale && duration ? duration / timescale : null;
+}
+
+/**
+ * Duration in seconds of an MP4/MOV/M4V file held in memory, or null when the moov box is missing or incomplete.
+ */
+export function readMp4Duration(bytes: Uint8Array): number | null {
+  let at = 0;
+  while (at < bytes.length) {
+    const box = readBox(bytes, at, bytes.length);
+    if (!box) return null;
+    if (box.type === "moov") return box.start + box.size <= bytes.length ? moovDuration(bytes, box) : null;
+    at += box.size;
+  }
+  return null;
+}
+
+/**
+ * Parse an HLS playlist. Media playlists report the sum of their #EXTINF durations; master playlists list their variants.
+ */
+export function parseHlsPlaylist(text: string, baseUrl?: string): HlsPlaylistInfo {
+  const lines = text.split(/\r?\n/).map(l => l.trim());
+  const variants: string[] = [];
+  let seconds = 0;
+  let segments = 0;
+  let ended = false;
+
+  lines.forEach((line, i) => {
+    if (line.startsWith("#EXTINF:")) {
+      seconds += parseFloat(line.slice(8)) || 0;
+      segments++;
+    } else if (line === "#EXT-X-ENDLIST" || line === "#EXT-X-PLAYLIST-TYPE:VOD") ended = true;
+    else if (line.startsWith("#EXT-X-STREAM-INF")) {
+      const uri = lines.slice(i + 1).find(l => l && !l.startsWith("#"));
+      if (uri) variants.push(baseUrl ? new URL(uri, baseUrl).toString() : uri);
+    }
+  });
+
+  return { seconds: segments > 0 && ended ? Math.round(seconds * 1000) / 1000 : null, variants };
+}
+
+/** HLS URL for a media URL: .m3u8 links, and stream.mux.com playback URLs without a file extension */
+function hlsUrl(url: string): string | null {
+  if (/\.m3u8(\?|#|$)/i.test(url)) return url;
+  const mux = url.match(/^(https?:\/\/stream\.mux\.com\/[^/?#.]+)(?:[?#]|$)/i);
+  return mux ? `${mux[1]}.m3u8` : null;
+}
+
+/** Run one request with an abort signal; rejects when it is not done (body included) within options.timeout */
+function withTimeout<T>(options: MediaProbeOptions, request: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Request timed out after ${timeout}ms`));
+    }, timeout);
+  });
+  return Promise.race([request(controller.signal), expired]).finally(() => clearTimeout(timer));
+}
+
+/** Fetch `length` bytes from `start`. Servers that ignore Range are only usable from the first byte. */
+function readRange(url: string, start: number, length: number, options: MediaProbeOptions): Promise<Uint8Array | null> {
+  return withTimeout(options, signal => readRangeBody(url, start, length, options.transport, signal));
+}
+
+async function readRangeBody(url: string, start: number, length: number, transport: HttpTransport | undefined, signal: AbortSignal): Promise<Uint8Array | null> {
+  const response = await httpFetch(url, { headers: { Range: `bytes=${start}-${start + length - 1}` }, signal }, transport);
+  if (!response.ok) return null;
+  if (response.status === 206) return new Uint8Array(await response.arrayBuffer());
+  if (start > 0 || !response.body) {
+    await response.body?.cancel();
+    return start > 0 ? null : new Uint8Array(await response.arrayBuffer()).slice(0, length);
+  }
+
+  // A full response: read only as much as was asked for
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (received < length) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+  }
+  await reader.cancel();
+  const bytes = new Uint8Array(Math.min(received, length));
+  let offset = 0;
+  for (const chunk of chunks) {
+    if (offset >= bytes.length) break;
+    bytes.set(chunk.subarray(0, bytes.length - offset), offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/** Walk the top-level boxes with small range reads until moov is found, skipping over mdat without downloading it */
+async function probeMp4(url: string, options: MediaProbeOptions): Promise<number | null> {
+  const maxMoovBytes = options.maxMoovBytes ?? DEFAULT_MAX_MOOV_BYTES;
+  let chunk = await readRange(url, 0, HEADER_BYTES, options);
+  let chunkStart = 0;
+  let offset = 0;
+
+  for (let i = 0; i < MAX_TOP_LEVEL_BOXES && chunk; i++) {
+    if (offset + 16 > chunkStart + chunk.length) {
+      chunk = await readRange(url, offset, HEADER_BYTES, options);
+      chunkStart = offset;
+      if (!chunk || chunk.length < 8) return null;
+    }
+    const box = readBox(chunk, offset - chunkStart, Infinity);
+    if (!box) return null;
+
+    if (box.type === "moov") {
+      if (offset + box.size > chunkStart + chunk.length) {
+        if (box.size > maxMoovBytes) return null;
+        chunk = await readRange(url, offset, box.size, options);
+        chunkStart = offset;
+        if (!chunk) return null;
+      }
+      const moov = readBox(chunk, offset - chunkStart, chunk.length);
+      return moov && moov.start + moov.size <= chunk.length ? moovDuration(chunk, moov) : null;
+    }
+    if (!Number.isFinite(box.size)) return null;
+    offset += box.size;
+  }
+  return null;
+}
+
+async function probeHls(url: string, options: MediaProbeOptions, depth: number = 0): Promise<number | null> {
+  const text = await withTimeout(options, async signal => {
+    const response = await httpFetch(url, { signal }, options.transport);
+    return response.ok ? response.text() : null;
+  });
+  if (text === null) return null;
+  const playlist = parseHlsPlaylist(text, url);
+  if (playlist.seconds !== null) return playlist.seconds;
+  // Every variant has the same duration, so the first one is enough
+  return playlist.variants.length > 0 && depth === 0 ? probeHls(playlist.variants[0], options, depth + 1) : null;
+}
+
+/**
+ * Duration in seconds of a media URL (HLS playlist, Mux playback URL or MP4/MOV file) or of MP4 bytes already in memory.
+ * Returns null when the duration cannot be read.
+ */
+export async function probeMediaDuration(source: string | Uint8Array, options: MediaProbeOptions = {}): Promise<number | null> {
+  if (typeof source !== "string") return readMp4Duration(source);
+  try {
+    const hls = hlsUrl(source);
+    return hls ? await probeHls(hls, options) : await probeMp4(source, options);
+  } catch {
+    return null;
+  }
+}
+
+/** The cheapest URL to probe for a file: its HLS stream when it has one */
+function fileProbeUrl(file: ContentFile): string | null {
+  if (file.mediaType !== "video" && file.mediaType !== "audio") return null;
+  if (file.muxPlaybackId) return mux.hlsUrl(file.muxPlaybackId);
+  return file.streamUrl || file.downloadUrl || file.url || null;
+}
+
+function itemProbeUrl(item: InstructionItem): string | null {
+  if (!item.downloadUrl || item.children?.length) return null;
+  const mediaType = detectMediaType(item.downloadUrl);
+  return mediaType === "video" || mediaType === "audio" ? item.downloadUrl : null;
+}
+
+/**
+ * Probe every video and audio file without seconds and set its seconds (rounded to whole seconds), in place.
+ * Each distinct URL is probed once. Returns the number of files or items that were filled in.
+ */
+export async function fillMissingDurations(target: ContentFile[] | Plan | Instructions, options: MediaProbeOptions = {}): Promise<number> {
+  const probes = new Map<string, Promise<number | null>>();
+  const probe = (url: string) => {
+    if (!probes.has(url)) probes.set(url, probeMediaDuration(url, options));
+    return probes.get(url)!;
+  };
+
+  const targets: { entry: { seconds?: number }; url: string | null }[] = Array.isArray(target)
+    ? target.map(file => ({ entry: file, url: fileProbeUrl(file) }))
+    : "sections" in target
+      ? [...target.allFiles, ...target.sections.flatMap(s => s.presentations.flatMap(p => p.files))].map(file => ({ entry: file, url: fileProbeUrl(file) }))
+      : flatten(target).map(({ item }) => ({ entry: item, url: itemProbeUrl(item) }));
+
+  const results = await Promise.all(targets.filter(t => t.url && !t.entry.seconds).map(async ({ entry, url }) => {
+    const seconds = await probe(url!);
+    if (!seconds || entry.seconds) return false;
+    entry.seconds = Math.round(seconds);
+    return true;
+  }));
+  return results.filter(Boolean).length;
+}
+
+/**
+ * Media type of a URL, sending a HEAD request for its content type only when the hint and the URL are not conclusive
+ * (no extension, or only an "image" hint). Falls back to detectMediaType when the request fails.
+ */
+export async function sniffMediaType(url: string, options: MediaSniffOptions = {}): Promise<MediaType> {
+  const { hint, transport } = options;
+  if (mediaTypeFromHint(hint) || mediaTypeFromUrl(url)) return detectMediaType(url, hint);
+  try {
+    const response = await httpFetch(url, { method: "HEAD" }, transport);
+    const contentType = response.ok ? response.headers.get("content-type") : null;
+    if (contentType && mediaTypeFromContentType(contentType)) return detectMediaType(url, contentType);
+  } catch {
+    // Unreachable URLs keep the offline detection
+  }
+  return detectMediaType(url, hint);
+}
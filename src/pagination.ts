@@ -0,0 +1,39 @@
+/**
+ * Paging helpers for browse results.
+ * Providers whose APIs page natively pass the API cursor through; the rest slice a full
+ * response (cached when a response cache is configured) with an offset cursor via paginateItems.
+ */
+
+import type { IProvider, ContentItem, ContentProviderAuthData, BrowsePage, BrowsePageOptions } from "./interfaces";
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Slice an in-memory list into a page. The cursor is the offset of the first item.
+ */
+export function paginateItems(items: ContentItem[], options: BrowsePageOptions = {}): BrowsePage {
+  const pageSize = Math.max(1, options.pageSize ?? DEFAULT_PAGE_SIZE);
+  const offset = Math.max(0, parseInt(options.cursor || "0", 10) || 0);
+  const end = offset + pageSize;
+  return { items: items.slice(offset, end), nextCursor: end < items.length ? String(end) : null, total: items.length };
+}
+
+/**
+ * Read every page of a folder as an async iterator of items.
+ * Falls back to a single browse() call for providers without browsePage.
+ * @example
+ * for await (const item of browseAll(provider, "/modules", auth)) console.log(item.title);
+ */
+export async function* browseAll(provider: IProvider, path: string | null | undefined, auth?: ContentProviderAuthData | null, options: { pageSize?: number } = {}): AsyncGenerator<ContentItem> {
+  if (!provider.capabilities.pagination || !provider.browsePage) {
+    yield* await provider.browse(path, auth);
+    return;
+  }
+
+  let cursor: string | null = null;
+  do {
+    const page: BrowsePage = await provider.browsePage(path, auth, { cursor, pageSize: options.pageSize });
+    yield* page.items;
+    cursor = page.nextCursor;
+  } while (cursor);
+}
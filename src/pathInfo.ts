@@ -0,0 +1,55 @@
+/**
+ * Turn a saved provider path back into human-readable breadcrumbs by walking the
+ * provider's own browse listings (cached when a response cache is configured).
+ */
+
+import type { IProvider, ContentItem, ContentProviderAuthData, PathInfo, PathSegmentInfo } from "./interfaces";
+import { parsePath } from "./pathUtils";
+
+function findSegmentItem(listing: ContentItem[], segmentPath: string, segment: string): ContentItem | undefined {
+  return listing.find(item => item.type === "folder" ? item.path === segmentPath : item.id === segment);
+}
+
+/**
+ * Resolve the title, thumbnail and kind of every segment of a path.
+ * Segments that do not appear in their parent listing (e.g. "/products" grouping segments, or content
+ * that has since been removed) fall back to the raw segment text and are marked unresolved.
+ * Formats are reported for leaf folders and files, or from playableDepth onward when the provider
+ * also serves whole collections.
+ */
+export async function resolvePathInfo(provider: IProvider, path: string, auth?: ContentProviderAuthData | null, options: { playableDepth?: number } = {}): Promise<PathInfo> {
+  const { segments } = parsePath(path);
+  const infos: PathSegmentInfo[] = [];
+
+  let listing = await provider.browse(null, auth);
+  let segmentPath = "";
+  for (let i = 0; i < segments.length; i++) {
+    segmentPath += `/${segments[i]}`;
+    const item = findSegmentItem(listing, segmentPath, segments[i]);
+
+    if (!item) {
+      infos.push({ id: segments[i], path: segmentPath, title: decodeURIComponent(segments[i]), kind: "folder", resolved: false });
+      continue;
+    }
+
+    const kind = item.type === "file" ? "file" : item.isLeaf ? "leaf" : "folder";
+    infos.push({ id: segments[i], path: segmentPath, title: item.title, thumbnail: item.thumbnail, kind, resolved: true });
+    if (kind !== "file" && i < segments.length - 1) listing = await provider.browse(segmentPath, auth);
+  }
+
+  const last = infos[infos.length - 1];
+  const playable = !!last?.resolved && (last.kind === "leaf" || last.kind === "file" || (options.playableDepth !== undefined && infos.length >= options.playableDepth));
+  const caps = provider.capabilities;
+  return {
+    path: segmentPath || "/",
+    title: last?.title ?? provider.name,
+    thumbnail: last?.thumbnail,
+    kind: last?.kind ?? "root",
+    segments: infos,
+    formats: {
+      playlist: playable && caps.playlist && !!provider.getPlaylist,
+      presentations: playable && caps.presentations && !!provider.getPresentations,
+      instructions: playable && caps.instructions && !!provider.getInstructions
+    }
+  };
+}
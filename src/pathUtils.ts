@@ -56,3 +56,40 @@ export function appendToPath(basePath: string | null | undefined, segment: strin
   const cleanBase = basePath.endsWith("/") ? basePath.slice(0, -1) : basePath;
   return cleanBase + "/" + segment;
 }
+
+export const CONTENT_URI_SCHEME = "provider";
+
+/**
+ * A reference to content in any provider: which provider, the browse path, and optionally
+ * an instruction path (positional or stable, see resolveInstructionPath) within that content.
+ */
+export interface ContentUri {
+  providerId: string;
+  path: string;
+  contentPath?: string;
+}
+
+/**
+ * Parse a content URI such as "provider://lessonschurch/lessons/a/b/c/d#0.2.1".
+ * @param uri - The URI to parse
+ * @returns The provider id, path and optional instruction path, or null if the URI is not a content URI
+ */
+export function parseContentUri(uri: string | null | undefined): ContentUri | null {
+  const match = uri?.match(/^provider:\/\/([^/#?]+)(\/[^#]*)?(?:#(.*))?$/);
+  if (!match) return null;
+  const { segments } = parsePath(match[2]);
+  return { providerId: decodeURIComponent(match[1]), path: buildPath(segments), ...(match[3] ? { contentPath: match[3] } : {}) };
+}
+
+/**
+ * Build a content URI.
+ * @param providerId - The provider id (e.g., "lessonschurch")
+ * @param path - The browse path within the provider
+ * @param contentPath - Optional instruction path (see generatePath)
+ * @returns URI string like "provider://lessonschurch/lessons/a#0.2"
+ */
+export function buildContentUri(providerId: string, path?: string | null, contentPath?: string | null): string {
+  const { segments } = parsePath(path);
+  const pathPart = segments.length > 0 ? buildPath(segments) : "";
+  return `${CONTENT_URI_SCHEME}://${encodeURIComponent(providerId)}${pathPart}${contentPath ? `#${contentPath}` : ""}`;
+}
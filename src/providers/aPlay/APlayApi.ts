@@ -1,15 +1,19 @@
-import { ContentProviderAuthData, MediaLicenseResult } from "../../interfaces";
+import { ContentProviderAuthData, MediaLicenseResult, HttpTransport } from "../../interfaces";
+import { httpFetch } from "../../helpers/HttpTransport";
+import { providerErrorFromException, providerErrorFromResponse, reportProviderError } from "../../errors";
 
 export const API_BASE = "https://api-prod.amazingkids.app";
+const PROVIDER_ID = "aplay";
 
-export async function checkMediaLicense(mediaId: string, auth?: ContentProviderAuthData | null): Promise<MediaLicenseResult | null> {
+export async function checkMediaLicense(mediaId: string, auth?: ContentProviderAuthData | null, transport?: HttpTransport): Promise<MediaLicenseResult | null> {
   if (!auth) return null;
 
+  const path = "/prod/reports/media/license-check";
   try {
-    const url = `${API_BASE}/prod/reports/media/license-check`;
-    const response = await fetch(url, { method: "POST", headers: { "Authorization": `Bearer ${auth.access_token}`, "Content-Type": "application/json", "Accept": "application/json" }, body: JSON.stringify({ mediaIds: [mediaId] }) });
+    const url = `${API_BASE}${path}`;
+    const response = await httpFetch(url, { method: "POST", headers: { "Authorization": `Bearer ${auth.access_token}`, "Content-Type": "application/json", "Accept": "application/json" }, body: JSON.stringify({ mediaIds: [mediaId] }) }, transport);
 
-    if (!response.ok) return null;
+    if (!response.ok) return reportProviderError(providerErrorFromResponse(response, PROVIDER_ID, path), null);
 
     const data = await response.json();
     const licenseData = Array.isArray(data) ? data : data.data || [];
@@ -19,7 +23,7 @@ export async function checkMediaLicense(mediaId: string, auth?: ContentProviderA
       return { mediaId, status: "valid", message: "Media is licensed for playback", expiresAt: result.expiresAt as string | number | undefined };
     }
     return { mediaId, status: "not_licensed", message: "Media is not licensed" };
-  } catch {
-    return { mediaId, status: "unknown", message: "Unable to verify license status" };
+  } catch (error) {
+    return reportProviderError(providerErrorFromException(error, PROVIDER_ID, path), { mediaId, status: "unknown", message: "Unable to verify license status" });
   }
 }
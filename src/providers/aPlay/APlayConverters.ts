@@ -1,6 +1,9 @@
 import { ContentFile, ContentItem, PlanPresentation, InstructionItem } from "../../interfaces";
 import { detectMediaType } from "../../utils";
 import { parsePath } from "../../pathUtils";
+import { MuxHelper } from "../../helpers/MuxHelper";
+
+const mux = new MuxHelper();
 
 /**
  * Extract library ID from path based on path structure
@@ -40,7 +43,7 @@ export function convertMediaToFiles(mediaItems: Record<string, unknown>[]): Cont
     if (mediaType === "video" && video) {
       muxPlaybackId = video.muxPlaybackId as string | undefined;
       if (muxPlaybackId) {
-        url = `https://stream.mux.com/${muxPlaybackId}/capped-1080p.mp4`;
+        url = mux.mp4Url(muxPlaybackId);
       } else {
         url = (video.muxStreamingUrl || video.url || "") as string;
       }
@@ -58,7 +61,7 @@ export function convertMediaToFiles(mediaItems: Record<string, unknown>[]): Cont
     const detectedMediaType = detectMediaType(url, mediaType);
     const fileId = (item.mediaId || item.id) as string;
 
-    files.push({ type: "file", id: fileId, title: (item.title || item.name || item.fileName || "") as string, mediaType: detectedMediaType, thumbnail: thumbnail, url, muxPlaybackId, mediaId: fileId });
+    files.push(mux.fillFile({ type: "file", id: fileId, title: (item.title || item.name || item.fileName || "") as string, mediaType: detectedMediaType, thumbnail: thumbnail, url, muxPlaybackId, mediaId: fileId }));
   }
 
   return files;
@@ -1,5 +1,9 @@
-import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, ProviderCapabilities, MediaLicenseResult, IProvider, AuthType, Instructions } from "../../interfaces";
+import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, ProviderCapabilities, MediaLicenseResult, IProvider, AuthType, Instructions, ProviderOptions, RenditionRequest, BrowsePage, BrowsePageOptions, SearchOptions, PathInfo } from "../../interfaces";
 import { parsePath } from "../../pathUtils";
+import { resolvePathInfo } from "../../pathInfo";
+import { collectFolders, indexCollected } from "../../search";
+import { paginateItems } from "../../pagination";
+import { normalizeRenditionRequest, muxRendition } from "../../renditions";
 import { ApiHelper } from "../../helpers";
 import { checkMediaLicense, API_BASE } from "./APlayApi";
 import { extractLibraryId, convertMediaToFiles, convertModulesToFolders, convertLibrariesToFolders, convertProductsToFolders, convertFilesToPresentations, convertFilesToInstructions } from "./APlayConverters";
@@ -35,7 +39,13 @@ function extractArray<T = Record<string, unknown>>(
  *   /modules/{moduleId}/libraries/{libraryId}             -> media files (if module has 0-1 products)
  */
 export class APlayProvider implements IProvider {
-  private readonly apiHelper = new ApiHelper();
+  private readonly options: ProviderOptions;
+  private readonly apiHelper: ApiHelper;
+
+  constructor(options: ProviderOptions = {}) {
+    this.options = options;
+    this.apiHelper = new ApiHelper(options);
+  }
 
   private async apiRequest<T>(path: string, auth?: ContentProviderAuthData | null): Promise<T | null> {
     return this.apiHelper.apiRequest<T>(this.config, this.id, path, auth);
@@ -50,7 +60,7 @@ export class APlayProvider implements IProvider {
 
   readonly requiresAuth = true;
   readonly authTypes: AuthType[] = ["oauth_pkce"];
-  readonly capabilities: ProviderCapabilities = { browse: true, presentations: true, playlist: true, instructions: true, mediaLicensing: true };
+  readonly capabilities: ProviderCapabilities = { browse: true, presentations: true, playlist: true, instructions: true, mediaLicensing: true, pagination: true, search: true };
 
   async browse(path?: string | null, auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
     const { segments, depth } = parsePath(path);
@@ -71,6 +81,23 @@ export class APlayProvider implements IProvider {
     return [];
   }
 
+  async getPathInfo(path: string, auth?: ContentProviderAuthData | null): Promise<PathInfo> {
+    return resolvePathInfo(this, path, auth);
+  }
+
+  /**
+   * The API returns whole lists, so pages are sliced from the full response (cached when a response cache is configured).
+   */
+  async browsePage(path: string | null | undefined, auth?: ContentProviderAuthData | null, options: BrowsePageOptions = {}): Promise<BrowsePage> {
+    return paginateItems(await this.browse(path, auth), options);
+  }
+
+  /** Searches modules, products and libraries; the listings are cached when a response cache is configured */
+  async search(query: string, options?: SearchOptions, auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
+    const collected = await collectFolders((p, a) => this.browse(p, a), "/modules", { maxDepth: 3 }, auth);
+    return indexCollected(collected).search(query, options);
+  }
+
   private async getModules(auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
     const response = await this.apiRequest<Record<string, unknown>>(this.config.endpoints.modules as string, auth);
     const modules = extractArray(response, "data", "modules");
@@ -110,22 +137,23 @@ export class APlayProvider implements IProvider {
     return convertMediaToFiles(mediaItems);
   }
 
-  // async getPresentations(path: string, auth?: ContentProviderAuthData | null): Promise<Plan | null> {
-  //   const libraryId = extractLibraryId(path);
-  //   if (!libraryId) return null;
+  async getPresentations(path: string, auth?: ContentProviderAuthData | null): Promise<Plan | null> {
+    const libraryId = extractLibraryId(path);
+    if (!libraryId) return null;
 
-  //   const files = await this.getMediaFiles(libraryId, auth) as ContentFile[];
-  //   if (files.length === 0) return null;
+    const files = await this.getMediaFiles(libraryId, auth) as ContentFile[];
+    if (files.length === 0) return null;
 
-  //   return convertFilesToPresentations(files, libraryId).plan;
-  // }
+    return convertFilesToPresentations(files, libraryId).plan;
+  }
 
-  async getPlaylist(path: string, auth?: ContentProviderAuthData | null, _resolution?: number): Promise<ContentFile[] | null> {
+  async getPlaylist(path: string, auth?: ContentProviderAuthData | null, resolution?: number | RenditionRequest): Promise<ContentFile[] | null> {
     const libraryId = extractLibraryId(path);
     if (!libraryId) return null;
 
     const files = await this.getMediaFiles(libraryId, auth) as ContentFile[];
-    return files.length > 0 ? files : null;
+    const request = normalizeRenditionRequest(resolution);
+    return files.length > 0 ? files.map(file => muxRendition(file, request)) : null;
   }
 
   async getInstructions(path: string, auth?: ContentProviderAuthData | null): Promise<Instructions | null> {
@@ -139,7 +167,7 @@ export class APlayProvider implements IProvider {
   }
 
   async checkMediaLicense(mediaId: string, auth?: ContentProviderAuthData | null): Promise<MediaLicenseResult | null> {
-    return checkMediaLicense(mediaId, auth);
+    return checkMediaLicense(mediaId, auth, this.options.transport);
   }
 
   supportsDeviceFlow(): boolean {
@@ -1,5 +1,8 @@
-import { ContentProviderAuthData, FeedVenueInterface, ContentItem, Plan, ContentFile, Instructions, VenueActionsResponseInterface } from "../../interfaces";
+import { ContentProviderAuthData, FeedVenueInterface, ContentItem, Plan, ContentFile, Instructions, VenueActionsResponseInterface, ProviderOptions } from "../../interfaces";
+import { httpFetch } from "../../helpers/HttpTransport";
+import { cachedRequest } from "../../cache";
 import { ArrangementKeyResponse, B1Ministry, B1PlanType, B1Plan } from "./B1ChurchTypes";
+import { providerErrorFromException, providerErrorFromResponse, reportProviderError } from "../../errors";
 
 export const API_BASE = "https://api.churchapps.org";
 
@@ -13,78 +16,59 @@ export type ProxyResult<M extends ProxyMethod> =
   never;
 export const LESSONS_API_BASE = "https://api.lessons.church";
 export const CONTENT_API_BASE = "https://contentapi.churchapps.org";
+const PROVIDER_ID = "b1church";
 
-async function authFetch<T>(url: string, auth: ContentProviderAuthData | null | undefined): Promise<T | null> {
-  try {
-    const headers: Record<string, string> = { Accept: "application/json" };
-    if (auth) {
-      headers["Authorization"] = `Bearer ${auth.access_token}`;
+/** API path of an absolute URL (everything after the host), used for cache keys and error paths */
+function apiPath(url: string): string {
+  return url.replace(/^https?:\/\/[^/]+/, "");
+}
+
+async function authFetch<T>(url: string, auth: ContentProviderAuthData | null | undefined, options?: ProviderOptions): Promise<T | null> {
+  const path = apiPath(url);
+  return cachedRequest(options?.cache, PROVIDER_ID, path, auth, async () => {
+    try {
+      const headers: Record<string, string> = { Accept: "application/json" };
+      if (auth) {
+        headers["Authorization"] = `Bearer ${auth.access_token}`;
+      }
+      const response = await httpFetch(url, { method: "GET", headers }, options?.transport);
+      if (!response.ok) return reportProviderError(providerErrorFromResponse(response, PROVIDER_ID, path), null);
+      return await response.json();
+    } catch (error) {
+      return reportProviderError(providerErrorFromException(error, PROVIDER_ID, path), null);
     }
-    const response = await fetch(url, { method: "GET", headers });
-    if (!response.ok) return null;
-    return await response.json();
-  } catch {
-    return null;
-  }
+  });
 }
 
-export async function fetchMinistries(auth: ContentProviderAuthData | null | undefined): Promise<B1Ministry[]> {
-  const result = await authFetch<B1Ministry[]>(`${API_BASE}/membership/groups/tag/ministry`, auth);
+export async function fetchMinistries(auth: ContentProviderAuthData | null | undefined, options?: ProviderOptions): Promise<B1Ministry[]> {
+  const result = await authFetch<B1Ministry[]>(`${API_BASE}/membership/groups/tag/ministry`, auth, options);
   return result || [];
 }
 
-export async function fetchPlanTypes(ministryId: string, auth: ContentProviderAuthData | null | undefined): Promise<B1PlanType[]> {
-  const result = await authFetch<B1PlanType[]>(`${API_BASE}/doing/planTypes/ministryId/${ministryId}`, auth);
+export async function fetchPlanTypes(ministryId: string, auth: ContentProviderAuthData | null | undefined, options?: ProviderOptions): Promise<B1PlanType[]> {
+  const result = await authFetch<B1PlanType[]>(`${API_BASE}/doing/planTypes/ministryId/${ministryId}`, auth, options);
   return result || [];
 }
 
-export async function fetchPlans(planTypeId: string, auth: ContentProviderAuthData | null | undefined): Promise<B1Plan[]> {
-  const result = await authFetch<B1Plan[]>(`${API_BASE}/doing/plans/types/${planTypeId}`, auth);
+export async function fetchPlans(planTypeId: string, auth: ContentProviderAuthData | null | undefined, options?: ProviderOptions): Promise<B1Plan[]> {
+  const result = await authFetch<B1Plan[]>(`${API_BASE}/doing/plans/types/${planTypeId}`, auth, options);
   return result || [];
 }
 
-export async function fetchVenueFeed(venueId: string): Promise<FeedVenueInterface | null> {
-  try {
-    const url = `${LESSONS_API_BASE}/venues/public/feed/${venueId}`;
-    const response = await fetch(url, { method: "GET", headers: { Accept: "application/json" } });
-    if (!response.ok) return null;
-    return await response.json();
-  } catch {
-    return null;
-  }
+export async function fetchVenueFeed(venueId: string, options?: ProviderOptions): Promise<FeedVenueInterface | null> {
+  return authFetch<FeedVenueInterface>(`${LESSONS_API_BASE}/venues/public/feed/${venueId}`, null, options);
 }
 
-export async function fetchVenuePlanItems(venueId: string): Promise<{ venueName?: string; items?: Record<string, unknown>[] } | null> {
-  try {
-    const url = `${LESSONS_API_BASE}/venues/public/planItems/${venueId}`;
-    const response = await fetch(url, { method: "GET", headers: { Accept: "application/json" } });
-    if (!response.ok) return null;
-    return await response.json();
-  } catch {
-    return null;
-  }
+export async function fetchVenuePlanItems(venueId: string, options?: ProviderOptions): Promise<{ venueName?: string; items?: Record<string, unknown>[] } | null> {
+  return authFetch<{ venueName?: string; items?: Record<string, unknown>[] }>(`${LESSONS_API_BASE}/venues/public/planItems/${venueId}`, null, options);
 }
 
-export async function fetchVenueActions(venueId: string): Promise<VenueActionsResponseInterface | null> {
-  try {
-    const url = `${LESSONS_API_BASE}/venues/public/actions/${venueId}`;
-    const response = await fetch(url, { method: "GET", headers: { Accept: "application/json" } });
-    if (!response.ok) return null;
-    return await response.json();
-  } catch {
-    return null;
-  }
+export async function fetchVenueActions(venueId: string, options?: ProviderOptions): Promise<VenueActionsResponseInterface | null> {
+  return authFetch<VenueActionsResponseInterface>(`${LESSONS_API_BASE}/venues/public/actions/${venueId}`, null, options);
 }
 
-export async function fetchArrangementKey(churchId: string, arrangementId: string): Promise<ArrangementKeyResponse | null> {
-  try {
-    const url = `${CONTENT_API_BASE}/arrangementKeys/presenter/${churchId}/${arrangementId}`;
-    const response = await fetch(url, { method: "GET", headers: { Accept: "application/json" } });
-    if (!response.ok) return null;
-    return await response.json();
-  } catch {
-    return null;
-  }
+export async function fetchArrangementKey(churchId: string, arrangementId: string, options?: ProviderOptions): Promise<ArrangementKeyResponse | null> {
+  return authFetch<ArrangementKeyResponse>(`${CONTENT_API_BASE}/arrangementKeys/presenter/${churchId}/${arrangementId}`, null, options);
 }
 
 export async function fetchFromProviderProxy<M extends ProxyMethod>(
@@ -93,30 +77,36 @@ export async function fetchFromProviderProxy<M extends ProxyMethod>(
   providerId: string,
   path: string,
   authData?: ContentProviderAuthData | null,
-  resolution?: number
+  resolution?: number,
+  options?: ProviderOptions
 ): Promise<ProxyResult<M> | null> {
-  try {
-    const url = `${API_BASE}/doing/providerProxy/${method}`;
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      Accept: "application/json"
-    };
-    if (authData) {
-      headers["Authorization"] = `Bearer ${authData.access_token}`;
-    }
+  const url = `${API_BASE}/doing/providerProxy/${method}`;
+  const body: Record<string, unknown> = { ministryId, providerId, path };
+  if (resolution !== undefined) body.resolution = resolution;
 
-    const body: Record<string, unknown> = { ministryId, providerId, path };
-    if (resolution !== undefined) body.resolution = resolution;
+  // POST, but a pure read - cache it like a GET keyed on the request body
+  const cacheKeyPath = `/doing/providerProxy/${method}?${new URLSearchParams(body as Record<string, string>).toString()}`;
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(body)
-    });
+  return cachedRequest(options?.cache, PROVIDER_ID, cacheKeyPath, authData, async () => {
+    try {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        Accept: "application/json"
+      };
+      if (authData) {
+        headers["Authorization"] = `Bearer ${authData.access_token}`;
+      }
 
-    if (!response.ok) return null;
-    return await response.json();
-  } catch {
-    return null;
-  }
+      const response = await httpFetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body)
+      }, options?.transport);
+
+      if (!response.ok) return reportProviderError(providerErrorFromResponse(response, PROVIDER_ID, apiPath(url)), null);
+      return await response.json();
+    } catch (error) {
+      return reportProviderError(providerErrorFromException(error, PROVIDER_ID, apiPath(url)), null);
+    }
+  });
 }
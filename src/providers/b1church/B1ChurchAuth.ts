@@ -1,4 +1,6 @@
-import { ContentProviderAuthData, ContentProviderConfig, DeviceAuthorizationResponse, DeviceFlowPollResult } from "../../interfaces";
+import { ContentProviderAuthData, ContentProviderConfig, DeviceAuthorizationResponse, DeviceFlowPollResult, HttpTransport } from "../../interfaces";
+import { httpFetch } from "../../helpers/HttpTransport";
+import { providerErrorFromException, providerErrorFromResponse, reportProviderError } from "../../errors";
 
 async function generateCodeChallenge(verifier: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -29,76 +31,84 @@ export async function buildB1AuthUrl(config: ContentProviderConfig, appBase: str
   return { url, challengeMethod: "S256" };
 }
 
-export async function exchangeCodeForTokensWithPKCE(config: ContentProviderConfig, code: string, redirectUri: string, codeVerifier: string): Promise<ContentProviderAuthData | null> {
+export async function exchangeCodeForTokensWithPKCE(config: ContentProviderConfig, code: string, redirectUri: string, codeVerifier: string, transport?: HttpTransport): Promise<ContentProviderAuthData | null> {
   try {
     const params = { grant_type: "authorization_code", code, client_id: config.clientId, code_verifier: codeVerifier, redirect_uri: redirectUri };
 
     const tokenUrl = `${config.oauthBase}/token`;
-    const response = await fetch(tokenUrl, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(params) });
+    const response = await httpFetch(tokenUrl, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(params) }, transport);
 
     if (!response.ok) {
-      return null;
+      return reportProviderError(providerErrorFromResponse(response, config.id, "/token"), null);
     }
 
     const data = await response.json();
     return { access_token: data.access_token, refresh_token: data.refresh_token, token_type: data.token_type || "Bearer", created_at: Math.floor(Date.now() / 1000), expires_in: data.expires_in, scope: data.scope || config.scopes.join(" ") };
-  } catch {
-    return null;
+  } catch (error) {
+    return reportProviderError(providerErrorFromException(error, config.id, "/token"), null);
   }
 }
 
-export async function exchangeCodeForTokensWithSecret(config: ContentProviderConfig, code: string, redirectUri: string, clientSecret: string): Promise<ContentProviderAuthData | null> {
+export async function exchangeCodeForTokensWithSecret(config: ContentProviderConfig, code: string, redirectUri: string, clientSecret: string, transport?: HttpTransport): Promise<ContentProviderAuthData | null> {
   try {
     const params = { grant_type: "authorization_code", code, client_id: config.clientId, client_secret: clientSecret, redirect_uri: redirectUri };
 
     const tokenUrl = `${config.oauthBase}/token`;
-    const response = await fetch(tokenUrl, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(params) });
+    const response = await httpFetch(tokenUrl, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(params) }, transport);
 
     if (!response.ok) {
-      return null;
+      return reportProviderError(providerErrorFromResponse(response, config.id, "/token"), null);
     }
 
     const data = await response.json();
     return { access_token: data.access_token, refresh_token: data.refresh_token, token_type: data.token_type || "Bearer", created_at: Math.floor(Date.now() / 1000), expires_in: data.expires_in, scope: data.scope || config.scopes.join(" ") };
-  } catch {
-    return null;
+  } catch (error) {
+    return reportProviderError(providerErrorFromException(error, config.id, "/token"), null);
   }
 }
 
-export async function refreshTokenWithSecret(config: ContentProviderConfig, auth: ContentProviderAuthData, clientSecret: string): Promise<ContentProviderAuthData | null> {
+export async function refreshToken(config: ContentProviderConfig, auth: ContentProviderAuthData, transport?: HttpTransport): Promise<ContentProviderAuthData | null> {
+  return requestRefresh(config, auth, {}, transport);
+}
+
+export async function refreshTokenWithSecret(config: ContentProviderConfig, auth: ContentProviderAuthData, clientSecret: string, transport?: HttpTransport): Promise<ContentProviderAuthData | null> {
+  return requestRefresh(config, auth, { client_secret: clientSecret }, transport);
+}
+
+async function requestRefresh(config: ContentProviderConfig, auth: ContentProviderAuthData, extraParams: Record<string, string>, transport?: HttpTransport): Promise<ContentProviderAuthData | null> {
   if (!auth.refresh_token) return null;
 
   try {
-    const params = { grant_type: "refresh_token", refresh_token: auth.refresh_token, client_id: config.clientId, client_secret: clientSecret };
-    const response = await fetch(`${config.oauthBase}/token`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(params) });
-    if (!response.ok) return null;
+    const params = { grant_type: "refresh_token", refresh_token: auth.refresh_token, client_id: config.clientId, ...extraParams };
+    const response = await httpFetch(`${config.oauthBase}/token`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(params) }, transport);
+    if (!response.ok) return reportProviderError(providerErrorFromResponse(response, config.id, "/token"), null);
 
     const data = await response.json();
     return { access_token: data.access_token, refresh_token: data.refresh_token || auth.refresh_token, token_type: data.token_type || "Bearer", created_at: Math.floor(Date.now() / 1000), expires_in: data.expires_in, scope: data.scope || auth.scope };
-  } catch {
-    return null;
+  } catch (error) {
+    return reportProviderError(providerErrorFromException(error, config.id, "/token"), null);
   }
 }
 
-export async function initiateDeviceFlow(config: ContentProviderConfig): Promise<DeviceAuthorizationResponse | null> {
+export async function initiateDeviceFlow(config: ContentProviderConfig, transport?: HttpTransport): Promise<DeviceAuthorizationResponse | null> {
   if (!config.supportsDeviceFlow || !config.deviceAuthEndpoint) return null;
 
   try {
-    const response = await fetch(`${config.oauthBase}${config.deviceAuthEndpoint}`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ client_id: config.clientId, scope: config.scopes.join(" ") }) });
+    const response = await httpFetch(`${config.oauthBase}${config.deviceAuthEndpoint}`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ client_id: config.clientId, scope: config.scopes.join(" ") }) }, transport);
 
     if (!response.ok) {
-      return null;
+      return reportProviderError(providerErrorFromResponse(response, config.id, config.deviceAuthEndpoint), null);
     }
 
     return await response.json();
-  } catch {
-    return null;
+  } catch (error) {
+    return reportProviderError(providerErrorFromException(error, config.id, config.deviceAuthEndpoint), null);
   }
 }
 
-export async function pollDeviceFlowToken(config: ContentProviderConfig, deviceCode: string): Promise<DeviceFlowPollResult> {
+export async function pollDeviceFlowToken(config: ContentProviderConfig, deviceCode: string, transport?: HttpTransport): Promise<DeviceFlowPollResult> {
   try {
-    const response = await fetch(`${config.oauthBase}/token`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ grant_type: "urn:ietf:params:oauth:grant-type:device_code", device_code: deviceCode, client_id: config.clientId }) });
+    const response = await httpFetch(`${config.oauthBase}/token`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ grant_type: "urn:ietf:params:oauth:grant-type:device_code", device_code: deviceCode, client_id: config.clientId }) }, transport);
 
     if (response.ok) {
       const data = await response.json();
@@ -1,5 +1,6 @@
-import { ContentItem, ContentFile, FeedVenueInterface, PlanPresentation, InstructionItem, VenueActionsResponseInterface } from "../../interfaces";
+import { ContentItem, ContentFile, FeedVenueInterface, PlanPresentation, InstructionItem, VenueActionsResponseInterface, ProviderOptions } from "../../interfaces";
 import { detectMediaType } from "../../utils";
+import { buildContentUri } from "../../pathUtils";
 import { B1Ministry, B1PlanType, B1Plan, B1PlanItem, ArrangementKeyResponse } from "./B1ChurchTypes";
 import { fetchArrangementKey } from "./B1ChurchApi";
 
@@ -15,15 +16,21 @@ export function planToFolder(plan: B1Plan): ContentItem {
   return { type: "folder" as const, id: plan.id, title: plan.name, path: "", isLeaf: true };
 }
 
+/** Content URI for a plan item that references another provider's content, e.g. provider://lessonschurch/lessons/a/b/c/d#0.2 */
+export function planItemToContentUri(item: B1PlanItem): string | null {
+  if (!item.providerId || !item.providerPath) return null;
+  return buildContentUri(item.providerId, item.providerPath, item.providerContentPath);
+}
+
 export function sectionToFolder(section: B1PlanItem): ContentItem {
   return { type: "folder" as const, id: section.id, title: section.label || "Section", path: "" };
 }
 
-export async function planItemToPresentation(item: B1PlanItem, venueFeed: FeedVenueInterface | null): Promise<PlanPresentation | null> {
+export async function planItemToPresentation(item: B1PlanItem, venueFeed: FeedVenueInterface | null, options?: ProviderOptions): Promise<PlanPresentation | null> {
   const itemType = item.itemType;
 
   if (itemType === "arrangementKey" && item.churchId && item.relatedId) {
-    const songData = await fetchArrangementKey(item.churchId, item.relatedId);
+    const songData = await fetchArrangementKey(item.churchId, item.relatedId, options);
     if (songData) return arrangementToPresentation(item, songData);
   }
 
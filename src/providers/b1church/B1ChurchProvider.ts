@@ -1,7 +1,12 @@
-import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, PlanSection, PlanPresentation, Instructions, ProviderCapabilities, DeviceAuthorizationResponse, DeviceFlowPollResult, IProvider, AuthType, InstructionItem } from "../../interfaces";
+import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, PlanSection, PlanPresentation, Instructions, ProviderCapabilities, DeviceAuthorizationResponse, DeviceFlowPollResult, IProvider, AuthType, InstructionItem, ProviderOptions, RenditionRequest, SearchOptions, ContentFolder, RecentPlan, PathInfo } from "../../interfaces";
 import { parsePath } from "../../pathUtils";
-import { navigateToPath } from "../../instructionPathUtils";
+import { resolvePathInfo } from "../../pathInfo";
+import { collectFolders, indexCollected } from "../../search";
+import { selectRecentPlans } from "../../utils";
+import { resolveInstructionPath } from "../../instructionPathUtils";
+import { normalizeRenditionRequest, fixedRendition, upstreamRendition } from "../../renditions";
 import { ApiHelper } from "../../helpers";
+import { ResponseCache, isCaching, getDefaultResponseCache } from "../../cache";
 import { B1PlanItem } from "./B1ChurchTypes";
 import * as B1ChurchAuth from "./B1ChurchAuth";
 import { fetchMinistries, fetchPlanTypes, fetchPlans, fetchVenueFeed, fetchVenueActions, fetchFromProviderProxy, API_BASE } from "./B1ChurchApi";
@@ -18,14 +23,29 @@ function isExternalProviderItem(item: B1PlanItem): boolean {
 }
 
 export class B1ChurchProvider implements IProvider {
-  private readonly apiHelper = new ApiHelper();
+  private readonly options: ProviderOptions;
+  private readonly apiHelper: ApiHelper;
 
-  // Unified cache for external provider data to avoid duplicate calls across methods
-  private readonly externalContentCache = {
-    plans: new Map<string, Plan | null>(),
-    instructions: new Map<string, Instructions | null>(),
-    playlists: new Map<string, ContentFile[] | null>()
-  };
+  /** Holds search crawl listings when no response cache is configured */
+  private readonly crawlCache = new ResponseCache();
+
+  constructor(options: ProviderOptions = {}) {
+    this.options = options;
+    this.apiHelper = new ApiHelper(options);
+  }
+
+  /**
+   * Options for one plan lookup. Without a response cache, a throwaway memory cache makes each repeated
+   * proxy lookup within the call a single request (several items often link to the same external plan).
+   */
+  private callOptions(): ProviderOptions {
+    return isCaching(this.options.cache) ? this.options : { ...this.options, cache: new ResponseCache() };
+  }
+
+  /** Options for search crawls: the configured cache, or this provider's own memory cache when none is set */
+  private crawlOptions(): ProviderOptions {
+    return this.options.cache === undefined && !getDefaultResponseCache() ? { ...this.options, cache: this.crawlCache } : this.options;
+  }
 
   private async apiRequest<T>(path: string, authData?: ContentProviderAuthData | null): Promise<T | null> {
     return this.apiHelper.apiRequest<T>(this.config, this.id, path, authData);
@@ -41,33 +61,41 @@ export class B1ChurchProvider implements IProvider {
 
   readonly requiresAuth = true;
   readonly authTypes: AuthType[] = ["oauth_pkce", "device_flow"];
-  readonly capabilities: ProviderCapabilities = { browse: true, presentations: true, playlist: true, instructions: true, mediaLicensing: false };
+  readonly capabilities: ProviderCapabilities = { browse: true, presentations: true, playlist: true, instructions: true, mediaLicensing: false, search: true, recentPlans: true };
 
   async buildAuthUrl(codeVerifier: string, redirectUri: string, state?: string): Promise<{ url: string; challengeMethod: string }> {
     return B1ChurchAuth.buildB1AuthUrl(this.config, this.appBase, redirectUri, codeVerifier, state);
   }
 
   async exchangeCodeForTokensWithPKCE(code: string, redirectUri: string, codeVerifier: string): Promise<ContentProviderAuthData | null> {
-    return B1ChurchAuth.exchangeCodeForTokensWithPKCE(this.config, code, redirectUri, codeVerifier);
+    return B1ChurchAuth.exchangeCodeForTokensWithPKCE(this.config, code, redirectUri, codeVerifier, this.options.transport);
   }
 
   async exchangeCodeForTokensWithSecret(code: string, redirectUri: string, clientSecret: string): Promise<ContentProviderAuthData | null> {
-    return B1ChurchAuth.exchangeCodeForTokensWithSecret(this.config, code, redirectUri, clientSecret);
+    return B1ChurchAuth.exchangeCodeForTokensWithSecret(this.config, code, redirectUri, clientSecret, this.options.transport);
+  }
+
+  async refreshToken(authData: ContentProviderAuthData): Promise<ContentProviderAuthData | null> {
+    return B1ChurchAuth.refreshToken(this.config, authData, this.options.transport);
   }
 
   async refreshTokenWithSecret(authData: ContentProviderAuthData, clientSecret: string): Promise<ContentProviderAuthData | null> {
-    return B1ChurchAuth.refreshTokenWithSecret(this.config, authData, clientSecret);
+    return B1ChurchAuth.refreshTokenWithSecret(this.config, authData, clientSecret, this.options.transport);
   }
 
   async initiateDeviceFlow(): Promise<DeviceAuthorizationResponse | null> {
-    return B1ChurchAuth.initiateDeviceFlow(this.config);
+    return B1ChurchAuth.initiateDeviceFlow(this.config, this.options.transport);
   }
 
   async pollDeviceFlowToken(deviceCode: string): Promise<DeviceFlowPollResult> {
-    return B1ChurchAuth.pollDeviceFlowToken(this.config, deviceCode);
+    return B1ChurchAuth.pollDeviceFlowToken(this.config, deviceCode, this.options.transport);
   }
 
   async browse(path?: string | null, authData?: ContentProviderAuthData | null): Promise<ContentItem[]> {
+    return this.browseWith(path, authData, this.options);
+  }
+
+  private async browseWith(path: string | null | undefined, authData: ContentProviderAuthData | null | undefined, options: ProviderOptions): Promise<ContentItem[]> {
     const { segments, depth } = parsePath(path);
 
     if (depth === 0) {
@@ -84,7 +112,7 @@ export class B1ChurchProvider implements IProvider {
 
     // /ministries -> list all ministries
     if (depth === 1) {
-      const ministries = await fetchMinistries(authData);
+      const ministries = await fetchMinistries(authData, options);
       return ministries.map(m => {
         const folder = ministryToFolder(m);
         return { ...folder, path: `/ministries/${m.id}` };
@@ -94,7 +122,7 @@ export class B1ChurchProvider implements IProvider {
     // /ministries/{ministryId} -> list plan types
     if (depth === 2) {
       const ministryId = segments[1];
-      const planTypes = await fetchPlanTypes(ministryId, authData);
+      const planTypes = await fetchPlanTypes(ministryId, authData, options);
       return planTypes.map(pt => {
         const folder = planTypeToFolder(pt);
         return { ...folder, path: `/ministries/${ministryId}/${pt.id}` };
@@ -105,7 +133,7 @@ export class B1ChurchProvider implements IProvider {
     if (depth === 3) {
       const ministryId = segments[1];
       const planTypeId = segments[2];
-      const plans = await fetchPlans(planTypeId, authData);
+      const plans = await fetchPlans(planTypeId, authData, options);
       return plans.map(p => {
         const folder = planToFolder(p);
         return {
@@ -119,126 +147,149 @@ export class B1ChurchProvider implements IProvider {
     return [];
   }
 
-  // async getPresentations(path: string, authData?: ContentProviderAuthData | null): Promise<Plan | null> {
-  //   const { segments, depth } = parsePath(path);
-
-  //   if (depth < 4 || segments[0] !== "ministries") return null;
-
-  //   const ministryId = segments[1];
-  //   const planId = segments[3];
-  //   const planTypeId = segments[2];
-
-  //   // Need to fetch plan details to get churchId and contentId
-  //   const plans = await fetchPlans(planTypeId, authData);
-  //   const planFolder = plans.find(p => p.id === planId);
-  //   if (!planFolder) return null;
-
-  //   const churchId = planFolder.churchId;
-  //   const venueId = planFolder.contentId;
-  //   const planTitle = planFolder.name || "Plan";
-
-  //   if (!churchId) {
-  //     console.warn("[B1Church getPresentations] planFolder missing churchId:", planFolder.id);
-  //     return null;
-  //   }
-
-  //   const pathFn = this.config.endpoints.planItems as (churchId: string, planId: string) => string;
-  //   const planItems = await this.apiRequest<B1PlanItem[]>(pathFn(churchId, planId), authData);
-
-  //   // If no planItems but plan has associated provider content, fetch from that provider
-  //   if ((!planItems || planItems.length === 0) && planFolder.providerId && planFolder.providerPlanId) {
-  //     const externalPlan = await fetchFromProviderProxy(
-  //       "getPresentations",
-  //       ministryId,
-  //       planFolder.providerId,
-  //       planFolder.providerPlanId,
-  //       authData
-  //     );
-  //     if (externalPlan) {
-  //       return { id: planId, name: planTitle, sections: externalPlan.sections, allFiles: externalPlan.allFiles };
-  //     }
-  //   }
-
-  //   if (!planItems || !Array.isArray(planItems)) return null;
-
-  //   const venueFeed = venueId ? await fetchVenueFeed(venueId) : null;
-
-  //   const sections: PlanSection[] = [];
-  //   const allFiles: ContentFile[] = [];
-
-  //   for (const sectionItem of planItems) {
-  //     const presentations: PlanPresentation[] = [];
-
-  //     for (const child of sectionItem.children || []) {
-  //       // Try external provider resolution first (cached, uses providerContentPath)
-  //       if (isExternalProviderItem(child) && child.providerId && child.providerPath) {
-  //         const cacheKey = `${child.providerId}:${child.providerPath}`;
-
-  //         let externalPlan = this.externalContentCache.plans.get(cacheKey);
-  //         if (externalPlan === undefined) {
-  //           externalPlan = await fetchFromProviderProxy(
-  //             "getPresentations",
-  //             ministryId,
-  //             child.providerId,
-  //             child.providerPath,
-  //             authData
-  //           );
-  //           this.externalContentCache.plans.set(cacheKey, externalPlan);
-  //         }
-
-  //         if (externalPlan) {
-  //           if (child.providerContentPath) {
-  //             // Fetch instructions to enable path-based lookup (with caching)
-  //             let externalInstructions = this.externalContentCache.instructions.get(cacheKey);
-  //             if (externalInstructions === undefined) {
-  //               externalInstructions = await fetchFromProviderProxy(
-  //                 "getInstructions",
-  //                 ministryId,
-  //                 child.providerId,
-  //                 child.providerPath,
-  //                 authData
-  //               );
-  //               this.externalContentCache.instructions.set(cacheKey, externalInstructions);
-  //             }
-  //             // Find and use only the specific presentation
-  //             const matchingPresentation = this.findPresentationByPath(externalPlan, externalInstructions, child.providerContentPath);
-  //             if (matchingPresentation) {
-  //               presentations.push(matchingPresentation);
-  //               if (Array.isArray(matchingPresentation.files)) {
-  //                 allFiles.push(...matchingPresentation.files);
-  //               }
-  //             }
-  //           } else {
-  //             // Add all presentations from the external plan
-  //             for (const section of externalPlan.sections || []) {
-  //               if (Array.isArray(section.presentations)) {
-  //                 presentations.push(...section.presentations);
-  //               }
-  //             }
-  //             if (Array.isArray(externalPlan.allFiles)) {
-  //               allFiles.push(...externalPlan.allFiles);
-  //             }
-  //           }
-  //         }
-  //       } else {
-  //         // Handle internal items (venue feed sections, link-based files, etc.)
-  //         const presentation = await planItemToPresentation(child, venueFeed);
-  //         if (presentation) {
-  //           presentations.push(presentation);
-  //           allFiles.push(...presentation.files);
-  //         }
-  //       }
-  //     }
-
-  //     if (presentations.length > 0 || sectionItem.label) {
-  //       sections.push({ id: sectionItem.id, name: sectionItem.label || "Section", presentations });
-  //     }
-  //   }
-
-  //   return { id: planId, name: planTitle, sections, allFiles };
-  // }
+  async getPathInfo(path: string, auth?: ContentProviderAuthData | null): Promise<PathInfo> {
+    return resolvePathInfo(this, path, auth);
+  }
+
+  /** Searches ministries, plan types and plans; the listings are cached (in this provider's memory when no response cache is set) */
+  async search(query: string, options?: SearchOptions, auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
+    const crawlOptions = this.crawlOptions();
+    const collected = await collectFolders((p, a) => this.browseWith(p, a, crawlOptions), "/ministries", { maxDepth: 3 }, auth);
+    return indexCollected(collected).search(query, options);
+  }
+
+  /** Latest plans across every ministry and plan type */
+  async getRecentPlans(authData?: ContentProviderAuthData | null, options: { limit?: number } = {}): Promise<RecentPlan[]> {
+    const ministries = await fetchMinistries(authData, this.options);
+    const perMinistry = await Promise.all(ministries.map(async (ministry) => {
+      const planTypes = await fetchPlanTypes(ministry.id, authData, this.options);
+      const perType = await Promise.all(planTypes.map(async (planType) => {
+        const plans = await fetchPlans(planType.id, authData, this.options);
+        return plans.map(p => ({ folder: { ...planToFolder(p), path: `/ministries/${ministry.id}/${planType.id}/${p.id}` } as ContentFolder, date: p.serviceDate }));
+      }));
+      return perType.flat();
+    }));
+    return selectRecentPlans(perMinistry.flat(), options.limit);
+  }
+
+  async getPresentations(path: string, authData?: ContentProviderAuthData | null): Promise<Plan | null> {
+    const options = this.callOptions();
+    const { segments, depth } = parsePath(path);
+
+    if (depth < 4 || segments[0] !== "ministries") return null;
+
+    const ministryId = segments[1];
+    const planId = segments[3];
+    const planTypeId = segments[2];
+
+    // Need to fetch plan details to get churchId and contentId
+    const plans = await fetchPlans(planTypeId, authData, options);
+    const planFolder = plans.find(p => p.id === planId);
+    if (!planFolder) return null;
+
+    const churchId = planFolder.churchId;
+    const venueId = planFolder.contentId;
+    const planTitle = planFolder.name || "Plan";
+
+    if (!churchId) {
+      console.warn("[B1Church getPresentations] planFolder missing churchId:", planFolder.id);
+      return null;
+    }
+
+    const pathFn = this.config.endpoints.planItems as (churchId: string, planId: string) => string;
+    const planItems = await this.apiRequest<B1PlanItem[]>(pathFn(churchId, planId), authData);
+
+    // If no planItems but plan has associated provider content, fetch from that provider
+    if ((!planItems || planItems.length === 0) && planFolder.providerId && planFolder.providerPlanId) {
+      const externalPlan = await fetchFromProviderProxy(
+        "getPresentations",
+        ministryId,
+        planFolder.providerId,
+        planFolder.providerPlanId,
+        authData,
+        undefined,
+        options
+      );
+      if (externalPlan) {
+        return { id: planId, name: planTitle, sections: externalPlan.sections, allFiles: externalPlan.allFiles };
+      }
+    }
+
+    if (!planItems || !Array.isArray(planItems)) return null;
+
+    const venueFeed = venueId ? await fetchVenueFeed(venueId, options) : null;
+
+    const sections: PlanSection[] = [];
+    const allFiles: ContentFile[] = [];
+
+    for (const sectionItem of planItems) {
+      const presentations: PlanPresentation[] = [];
+
+      for (const child of sectionItem.children || []) {
+        // Try external provider resolution first (shared within the call, uses providerContentPath)
+        if (isExternalProviderItem(child) && child.providerId && child.providerPath) {
+          const externalPlan = await fetchFromProviderProxy(
+            "getPresentations",
+            ministryId,
+            child.providerId,
+            child.providerPath,
+            authData,
+            undefined,
+            options
+          );
+
+          if (externalPlan) {
+            if (child.providerContentPath) {
+              // Fetch instructions to enable path-based lookup (shared within the call)
+              const externalInstructions = await fetchFromProviderProxy(
+                "getInstructions",
+                ministryId,
+                child.providerId,
+                child.providerPath,
+                authData,
+                undefined,
+                options
+              );
+              // Find and use only the specific presentation
+              const matchingPresentation = this.findPresentationByPath(externalPlan, externalInstructions, child.providerContentPath);
+              if (matchingPresentation) {
+                presentations.push(matchingPresentation);
+                if (Array.isArray(matchingPresentation.files)) {
+                  allFiles.push(...matchingPresentation.files);
+                }
+              }
+            } else {
+              // Add all presentations from the external plan
+              for (const section of externalPlan.sections || []) {
+                if (Array.isArray(section.presentations)) {
+                  presentations.push(...section.presentations);
+                }
+              }
+              if (Array.isArray(externalPlan.allFiles)) {
+                allFiles.push(...externalPlan.allFiles);
+              }
+            }
+          }
+        } else {
+          // Handle internal items (venue feed sections, link-based files, etc.)
+          const presentation = await planItemToPresentation(child, venueFeed, options);
+          if (presentation) {
+            presentations.push(presentation);
+            allFiles.push(...presentation.files);
+          }
+        }
+      }
+
+      if (presentations.length > 0 || sectionItem.label) {
+        sections.push({ id: sectionItem.id, name: sectionItem.label || "Section", presentations });
+      }
+    }
+
+    return { id: planId, name: planTitle, sections, allFiles };
+  }
 
   async getInstructions(path: string, authData?: ContentProviderAuthData | null): Promise<Instructions | null> {
+    const options = this.callOptions();
     const { segments, depth } = parsePath(path);
 
     if (depth < 4 || segments[0] !== "ministries") return null;
@@ -248,7 +299,7 @@ export class B1ChurchProvider implements IProvider {
     const planTypeId = segments[2];
 
     // Need to fetch plan details to get churchId and contentId
-    const plans = await fetchPlans(planTypeId, authData);
+    const plans = await fetchPlans(planTypeId, authData, options);
     const planFolder = plans.find(p => p.id === planId);
     if (!planFolder) return null;
 
@@ -271,7 +322,9 @@ export class B1ChurchProvider implements IProvider {
         ministryId,
         planFolder.providerId,
         planFolder.providerPlanId,
-        authData
+        authData,
+        undefined,
+        options
       );
       if (externalInstructions) {
         return { name: planTitle, items: externalInstructions.items };
@@ -285,22 +338,23 @@ export class B1ChurchProvider implements IProvider {
     let lessonImage: string | undefined;
     if (venueId) {
       const [venueActions, venueFeed] = await Promise.all([
-        fetchVenueActions(venueId),
-        fetchVenueFeed(venueId)
+        fetchVenueActions(venueId, options),
+        fetchVenueFeed(venueId, options)
       ]);
       lessonImage = venueFeed?.lessonImage;
       sectionActionsMap = buildSectionActionsMap(venueActions, lessonImage);
     }
 
     // Process items, handling external providers
-    const processedItems = await this.processInstructionItems(planItems, ministryId, authData, sectionActionsMap, lessonImage);
+    const processedItems = await this.processInstructionItems(planItems, ministryId, authData, options, sectionActionsMap, lessonImage);
     return { name: planTitle, items: processedItems };
   }
 
   private async processInstructionItems(
     items: B1PlanItem[],
     ministryId: string,
-    authData?: ContentProviderAuthData | null,
+    authData: ContentProviderAuthData | null | undefined,
+    options: ProviderOptions,
     sectionActionsMap?: Map<string, import("../../interfaces").InstructionItem[]>,
     thumbnail?: string
   ): Promise<import("../../interfaces").InstructionItem[]> {
@@ -334,7 +388,7 @@ export class B1ChurchProvider implements IProvider {
         // The embedUrl is already set by planItemToInstruction, no children needed
       } else if (hasLocallyExpandableChildren) {
         // Recurse into children that can be expanded locally (don't fetch from external)
-        instructionItem.children = await this.processInstructionItems(item.children!, ministryId, authData, sectionActionsMap, thumbnail);
+        instructionItem.children = await this.processInstructionItems(item.children!, ministryId, authData, options, sectionActionsMap, thumbnail);
       } else if (isExternalProviderItem(item) && item.providerId && item.providerPath) {
         // Fetch expanded instructions from external provider
         const externalInstructions = await fetchFromProviderProxy(
@@ -342,7 +396,9 @@ export class B1ChurchProvider implements IProvider {
           ministryId,
           item.providerId,
           item.providerPath,
-          authData
+          authData,
+          undefined,
+          options
         );
         if (externalInstructions) {
           // If providerContentPath is set, find and use only that specific item's children
@@ -358,7 +414,7 @@ export class B1ChurchProvider implements IProvider {
         }
       } else if (item.children && item.children.length > 0) {
         // Recursively process children for internal items
-        instructionItem.children = await this.processInstructionItems(item.children, ministryId, authData, sectionActionsMap, thumbnail);
+        instructionItem.children = await this.processInstructionItems(item.children, ministryId, authData, options, sectionActionsMap, thumbnail);
       }
 
       result.push(instructionItem);
@@ -367,14 +423,15 @@ export class B1ChurchProvider implements IProvider {
     return result;
   }
 
+  /** A stale stable path (its saved id is gone) resolves to nothing rather than whatever now sits at that index */
   private findItemByPath(instructions: Instructions | null, path?: string): InstructionItem | null {
     if (!path || !instructions) return null;
-    return navigateToPath(instructions, path);
+    const resolved = resolveInstructionPath(instructions, path);
+    return resolved && !resolved.stale ? resolved.item : null;
   }
 
   private findPresentationByPath(plan: Plan, instructions: Instructions | null, path?: string): PlanPresentation | null {
-    if (!path || !instructions) return null;
-    const item = navigateToPath(instructions, path);
+    const item = this.findItemByPath(instructions, path);
     if (!item?.relatedId && !item?.id) return null;
     const presentationId = item.relatedId || item.id;
     for (const section of plan.sections) {
@@ -385,17 +442,20 @@ export class B1ChurchProvider implements IProvider {
     return null;
   }
 
-  async getPlaylist(path: string, authData?: ContentProviderAuthData | null, resolution?: number): Promise<ContentFile[] | null> {
+  /** maxHeight is forwarded to linked providers through the proxy; files from the venue feed are fixed */
+  async getPlaylist(path: string, authData?: ContentProviderAuthData | null, resolution?: number | RenditionRequest): Promise<ContentFile[] | null> {
+    const options = this.callOptions();
     const { segments, depth } = parsePath(path);
 
     if (depth < 4 || segments[0] !== "ministries") return null;
+    const { maxHeight } = normalizeRenditionRequest(resolution);
 
     const ministryId = segments[1];
     const planId = segments[3];
     const planTypeId = segments[2];
 
     // Need to fetch plan details to get churchId and contentId
-    const plans = await fetchPlans(planTypeId, authData);
+    const plans = await fetchPlans(planTypeId, authData, options);
     const planFolder = plans.find(p => p.id === planId);
     if (!planFolder) return null;
 
@@ -418,14 +478,15 @@ export class B1ChurchProvider implements IProvider {
         planFolder.providerId,
         planFolder.providerPlanId,
         authData,
-        resolution
+        maxHeight,
+        options
       );
-      return externalFiles || null;
+      return externalFiles ? externalFiles.map(upstreamRendition) : null;
     }
 
     if (!planItems || !Array.isArray(planItems)) return null;
 
-    const venueFeed = venueId ? await fetchVenueFeed(venueId) : null;
+    const venueFeed = venueId ? await fetchVenueFeed(venueId, options) : null;
     const files: ContentFile[] = [];
 
     for (const sectionItem of planItems) {
@@ -436,35 +497,29 @@ export class B1ChurchProvider implements IProvider {
         const isSectionType = childItemType === "section" || childItemType === "lessonSection" || childItemType === "providerSection";
         const canExpandLocally = isSectionType && venueFeed && child.relatedId;
 
-        // Try external provider resolution first (cached, uses providerContentPath)
+        // Try external provider resolution first (shared within the call, uses providerContentPath)
         if (isExternalProviderItem(child) && child.providerId && child.providerPath) {
-          const cacheKey = `${child.providerId}:${child.providerPath}`;
-
           if (child.providerContentPath) {
-            // Fetch presentations and instructions for path-based lookup (with caching)
-            let externalPlan = this.externalContentCache.plans.get(cacheKey);
-            if (externalPlan === undefined) {
-              externalPlan = await fetchFromProviderProxy(
-                "getPresentations",
-                ministryId,
-                child.providerId,
-                child.providerPath,
-                authData
-              );
-              this.externalContentCache.plans.set(cacheKey, externalPlan);
-            }
-
-            let externalInstructions = this.externalContentCache.instructions.get(cacheKey);
-            if (externalInstructions === undefined) {
-              externalInstructions = await fetchFromProviderProxy(
-                "getInstructions",
-                ministryId,
-                child.providerId,
-                child.providerPath,
-                authData
-              );
-              this.externalContentCache.instructions.set(cacheKey, externalInstructions);
-            }
+            // Fetch presentations and instructions for path-based lookup (shared within the call)
+            const externalPlan = await fetchFromProviderProxy(
+              "getPresentations",
+              ministryId,
+              child.providerId,
+              child.providerPath,
+              authData,
+              undefined,
+              options
+            );
+
+            const externalInstructions = await fetchFromProviderProxy(
+              "getInstructions",
+              ministryId,
+              child.providerId,
+              child.providerPath,
+              authData,
+              undefined,
+              options
+            );
 
             if (externalPlan) {
               const matchingPresentation = this.findPresentationByPath(externalPlan, externalInstructions, child.providerContentPath);
@@ -473,21 +528,18 @@ export class B1ChurchProvider implements IProvider {
               }
             }
           } else {
-            // No specific content path - get all files (with caching)
-            let externalFiles = this.externalContentCache.playlists.get(cacheKey);
-            if (externalFiles === undefined) {
-              externalFiles = await fetchFromProviderProxy(
-                "getPlaylist",
-                ministryId,
-                child.providerId,
-                child.providerPath,
-                authData,
-                resolution
-              );
-              this.externalContentCache.playlists.set(cacheKey, externalFiles);
-            }
+            // No specific content path - get all files (shared within the call)
+            const externalFiles = await fetchFromProviderProxy(
+              "getPlaylist",
+              ministryId,
+              child.providerId,
+              child.providerPath,
+              authData,
+              maxHeight,
+              options
+            );
             if (Array.isArray(externalFiles)) {
-              files.push(...externalFiles);
+              files.push(...externalFiles.map(upstreamRendition));
             }
           }
         } else if (canExpandLocally) {
@@ -507,7 +559,7 @@ export class B1ChurchProvider implements IProvider {
       }
     }
 
-    return files.length > 0 ? files : null;
+    return files.length > 0 ? files.map(fixedRendition) : null;
   }
 
   supportsDeviceFlow(): boolean {
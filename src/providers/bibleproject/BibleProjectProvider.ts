@@ -1,6 +1,10 @@
-import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, PlanPresentation, ProviderCapabilities, IProvider, AuthType, Instructions, InstructionItem } from "../../interfaces";
+import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, PlanPresentation, ProviderCapabilities, IProvider, AuthType, Instructions, InstructionItem, RenditionRequest, SearchOptions, PathInfo } from "../../interfaces";
 import { createFile, slugify } from "../../utils";
 import { parsePath } from "../../pathUtils";
+import { resolvePathInfo } from "../../pathInfo";
+import { normalizeRenditionRequest, muxRendition } from "../../renditions";
+import { MuxHelper } from "../../helpers/MuxHelper";
+import { SearchIndex, collectFolders, indexCollected } from "../../search";
 import bibleProjectData from "./data.json";
 import { BibleProjectData } from "./BibleProjectInterfaces";
 
@@ -35,6 +39,9 @@ export class BibleProjectProvider implements IProvider {
 
   private data: BibleProjectData = bibleProjectData;
 
+  private searchIndex: SearchIndex | null = null;
+  private readonly mux = new MuxHelper();
+
   readonly requiresAuth = false;
   readonly authTypes: AuthType[] = ["none"];
   readonly capabilities: ProviderCapabilities = {
@@ -42,7 +49,8 @@ export class BibleProjectProvider implements IProvider {
     presentations: true,
     playlist: true,
     instructions: true,
-    mediaLicensing: false
+    mediaLicensing: false,
+    search: true
   };
 
   async browse(path?: string | null, _auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
@@ -105,42 +113,53 @@ export class BibleProjectProvider implements IProvider {
     return [createFile(video.id, video.title, video.videoUrl, { mediaType: "video", muxPlaybackId: video.muxPlaybackId, seconds: 0 })];
   }
 
-  // async getPresentations(path: string, _auth?: ContentProviderAuthData | null): Promise<Plan | null> {
-  //   const { segments, depth } = parsePath(path);
+  /** Searches collections and videos from the bundled data */
+  async search(query: string, options?: SearchOptions, _auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
+    if (!this.searchIndex) this.searchIndex = indexCollected(await collectFolders((p) => this.browse(p), "/", { maxDepth: 2 }));
+    return this.searchIndex.search(query, options);
+  }
 
-  //   if (depth < 1) return null;
+  async getPathInfo(path: string, auth?: ContentProviderAuthData | null): Promise<PathInfo> {
+    return resolvePathInfo(this, path, auth, { playableDepth: 1 });
+  }
 
-  //   const collectionSlug = segments[0];
-  //   const collection = this.data.collections.find(c => slugify(c.name) === collectionSlug);
-  //   if (!collection) return null;
+  async getPresentations(path: string, _auth?: ContentProviderAuthData | null): Promise<Plan | null> {
+    const { segments, depth } = parsePath(path);
 
-  //   // For collection level (depth 1), create a plan with all videos
-  //   if (depth === 1) {
-  //     const allFiles: ContentFile[] = [];
-  //     const presentations: PlanPresentation[] = collection.videos.map(video => {
-  //       const file: ContentFile = { type: "file", id: video.id, title: video.title, mediaType: "video", url: video.videoUrl, thumbnail: video.thumbnailUrl, muxPlaybackId: video.muxPlaybackId, seconds: 0 };
-  //       allFiles.push(file);
-  //       return { id: video.id, name: video.title, actionType: "play" as const, files: [file] };
-  //     });
+    if (depth < 1) return null;
+
+    const collectionSlug = segments[0];
+    const collection = this.data.collections.find(c => slugify(c.name) === collectionSlug);
+    if (!collection) return null;
 
-  //     return { id: slugify(collection.name), name: collection.name, thumbnail: collection.image || undefined, sections: [{ id: "videos", name: "Videos", presentations }], allFiles };
-  //   }
+    // For collection level (depth 1), create a plan with all videos
+    if (depth === 1) {
+      const allFiles: ContentFile[] = [];
+      const presentations: PlanPresentation[] = collection.videos.map(video => {
+        const file: ContentFile = this.mux.fillFile({ type: "file", id: video.id, title: video.title, mediaType: "video", url: video.videoUrl, thumbnail: video.thumbnailUrl, muxPlaybackId: video.muxPlaybackId, seconds: 0 });
+        allFiles.push(file);
+        return { id: video.id, name: video.title, actionType: "play" as const, files: [file] };
+      });
+
+      return { id: slugify(collection.name), name: collection.name, thumbnail: collection.image || undefined, sections: [{ id: "videos", name: "Videos", presentations }], allFiles };
+    }
 
-  //   // For video level (depth 2, single video), create a simple plan
-  //   if (depth === 2) {
-  //     const videoId = segments[1];
-  //     const video = collection.videos.find(v => v.id === videoId);
-  //     if (!video) return null;
+    // For video level (depth 2, single video), create a simple plan
+    if (depth === 2) {
+      const videoId = segments[1];
+      const video = collection.videos.find(v => v.id === videoId);
+      if (!video) return null;
 
-  //     const file: ContentFile = { type: "file", id: video.id, title: video.title, mediaType: "video", url: video.videoUrl, thumbnail: video.thumbnailUrl, muxPlaybackId: video.muxPlaybackId, seconds: 0 };
-  //     return { id: video.id, name: video.title, thumbnail: video.thumbnailUrl, sections: [{ id: "main", name: "Content", presentations: [{ id: video.id, name: video.title, actionType: "play", files: [file] }] }], allFiles: [file] };
-  //   }
+      const file: ContentFile = this.mux.fillFile({ type: "file", id: video.id, title: video.title, mediaType: "video", url: video.videoUrl, thumbnail: video.thumbnailUrl, muxPlaybackId: video.muxPlaybackId, seconds: 0 });
+      return { id: video.id, name: video.title, thumbnail: video.thumbnailUrl, sections: [{ id: "main", name: "Content", presentations: [{ id: video.id, name: video.title, actionType: "play", files: [file] }] }], allFiles: [file] };
+    }
 
-  //   return null;
-  // }
+    return null;
+  }
 
-  async getPlaylist(path: string, _auth?: ContentProviderAuthData | null, _resolution?: number): Promise<ContentFile[] | null> {
+  async getPlaylist(path: string, _auth?: ContentProviderAuthData | null, resolution?: number | RenditionRequest): Promise<ContentFile[] | null> {
     const { segments, depth } = parsePath(path);
+    const request = normalizeRenditionRequest(resolution);
 
     if (depth < 1) return null;
 
@@ -150,7 +169,7 @@ export class BibleProjectProvider implements IProvider {
 
     // For collection level, return all videos
     if (depth === 1) {
-      const files = collection.videos.map(video => ({ type: "file" as const, id: video.id, title: video.title, mediaType: "video" as const, url: video.videoUrl, thumbnail: video.thumbnailUrl, muxPlaybackId: video.muxPlaybackId, seconds: 0 }));
+      const files = collection.videos.map(video => muxRendition(this.mux.fillFile<ContentFile>({ type: "file", id: video.id, title: video.title, mediaType: "video", url: video.videoUrl, thumbnail: video.thumbnailUrl, muxPlaybackId: video.muxPlaybackId, seconds: 0 }), request, "standard"));
       return files.length > 0 ? files : null;
     }
 
@@ -159,7 +178,7 @@ export class BibleProjectProvider implements IProvider {
       const videoId = segments[1];
       const video = collection.videos.find(v => v.id === videoId);
       if (!video) return null;
-      return [{ type: "file", id: video.id, title: video.title, mediaType: "video", url: video.videoUrl, thumbnail: video.thumbnailUrl, muxPlaybackId: video.muxPlaybackId, seconds: 0 }];
+      return [muxRendition(this.mux.fillFile<ContentFile>({ type: "file", id: video.id, title: video.title, mediaType: "video", url: video.videoUrl, thumbnail: video.thumbnailUrl, muxPlaybackId: video.muxPlaybackId, seconds: 0 }), request, "standard")];
     }
 
     return null;
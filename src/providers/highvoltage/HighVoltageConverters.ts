@@ -1,5 +1,5 @@
 import { ContentItem, ContentFile, Plan, PlanSection, PlanPresentation } from "../../interfaces";
-import { createFile, slugify } from "../../utils";
+import { createFile, detectMediaType, slugify } from "../../utils";
 import { HighVoltageData, LessonFolder, StudyFolder } from "./HighVoltageKidsInterfaces";
 
 export function getCollections(data: HighVoltageData): ContentItem[] {
@@ -53,7 +53,7 @@ export function getLessonFiles(data: HighVoltageData, collectionSlug: string, st
   const lesson = study.lessons.find(l => l.id === lessonId);
   if (!lesson?.files) return [];
 
-  return lesson.files.map(file => createFile(file.id, file.title, file.url, { mediaType: file.mediaType as "video" | "image" }));
+  return lesson.files.map(file => createFile(file.id, file.title, file.url, { mediaType: detectMediaType(file.url, file.mediaType) }));
 }
 
 export function findStudy(data: HighVoltageData, collectionSlug: string, studyId: string): StudyFolder | null {
@@ -76,7 +76,7 @@ export function buildStudyPlan(study: StudyFolder): Plan {
   const allFiles: ContentFile[] = [];
   const sections: PlanSection[] = study.lessons.map(lesson => {
     const files: ContentFile[] = lesson.files.map(file => {
-      const contentFile: ContentFile = { type: "file", id: file.id, title: file.title, mediaType: file.mediaType as "video" | "image", url: file.url, thumbnail: lesson.image };
+      const contentFile: ContentFile = { type: "file", id: file.id, title: file.title, mediaType: detectMediaType(file.url, file.mediaType), url: file.url, thumbnail: lesson.image };
       allFiles.push(contentFile);
       return contentFile;
     });
@@ -88,7 +88,7 @@ export function buildStudyPlan(study: StudyFolder): Plan {
 }
 
 export function buildLessonPlan(lesson: LessonFolder): Plan {
-  const files: ContentFile[] = lesson.files.map(file => ({ type: "file" as const, id: file.id, title: file.title, mediaType: file.mediaType as "video" | "image", url: file.url, thumbnail: lesson.image }));
+  const files: ContentFile[] = lesson.files.map(file => ({ type: "file" as const, id: file.id, title: file.title, mediaType: detectMediaType(file.url, file.mediaType), url: file.url, thumbnail: lesson.image }));
   const presentation: PlanPresentation = { id: lesson.id, name: lesson.name, actionType: "play", files };
   return { id: lesson.id, name: lesson.name, thumbnail: lesson.image, sections: [{ id: "main", name: "Content", presentations: [presentation] }], allFiles: files };
 }
@@ -97,12 +97,12 @@ export function buildStudyPlaylist(study: StudyFolder): ContentFile[] {
   const allFiles: ContentFile[] = [];
   for (const lesson of study.lessons) {
     for (const file of lesson.files) {
-      allFiles.push({ type: "file", id: file.id, title: file.title, mediaType: file.mediaType as "video" | "image", url: file.url, thumbnail: lesson.image });
+      allFiles.push({ type: "file", id: file.id, title: file.title, mediaType: detectMediaType(file.url, file.mediaType), url: file.url, thumbnail: lesson.image });
     }
   }
   return allFiles;
 }
 
 export function buildLessonPlaylist(lesson: LessonFolder): ContentFile[] {
-  return lesson.files.map(file => ({ type: "file" as const, id: file.id, title: file.title, mediaType: file.mediaType as "video" | "image", url: file.url, thumbnail: lesson.image }));
+  return lesson.files.map(file => ({ type: "file" as const, id: file.id, title: file.title, mediaType: detectMediaType(file.url, file.mediaType), url: file.url, thumbnail: lesson.image }));
 }
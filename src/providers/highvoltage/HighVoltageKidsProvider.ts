@@ -1,5 +1,8 @@
-import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, ProviderCapabilities, Instructions, IProvider, AuthType } from "../../interfaces";
+import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, ProviderCapabilities, Instructions, IProvider, AuthType, RenditionRequest, SearchOptions, PathInfo } from "../../interfaces";
 import { parsePath } from "../../pathUtils";
+import { resolvePathInfo } from "../../pathInfo";
+import { fixedRendition } from "../../renditions";
+import { SearchIndex, collectFolders, indexCollected } from "../../search";
 import highVoltageData from "./data.json";
 import { HighVoltageData } from "./HighVoltageKidsInterfaces";
 import { getCollections, getStudyFolders, getLessonFolders, getLessonFiles, findStudy, findLesson, buildStudyPlan, buildLessonPlan, buildStudyPlaylist, buildLessonPlaylist } from "./HighVoltageConverters";
@@ -37,6 +40,8 @@ export class HighVoltageKidsProvider implements IProvider {
 
   private data: HighVoltageData = highVoltageData;
 
+  private searchIndex: SearchIndex | null = null;
+
   readonly requiresAuth = false;
   readonly authTypes: AuthType[] = ["none"];
   readonly capabilities: ProviderCapabilities = {
@@ -44,7 +49,8 @@ export class HighVoltageKidsProvider implements IProvider {
     presentations: true,
     playlist: true,
     instructions: true,
-    mediaLicensing: false
+    mediaLicensing: false,
+    search: true
   };
 
   async browse(path?: string | null, _auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
@@ -58,26 +64,37 @@ export class HighVoltageKidsProvider implements IProvider {
     return [];
   }
 
-  // async getPresentations(path: string, _auth?: ContentProviderAuthData | null): Promise<Plan | null> {
-  //   const { segments, depth } = parsePath(path);
+  /** Searches collections, studies and lessons from the bundled data */
+  async search(query: string, options?: SearchOptions, _auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
+    if (!this.searchIndex) this.searchIndex = indexCollected(await collectFolders((p) => this.browse(p), "/", { maxDepth: 3 }));
+    return this.searchIndex.search(query, options);
+  }
+
+  async getPathInfo(path: string, auth?: ContentProviderAuthData | null): Promise<PathInfo> {
+    return resolvePathInfo(this, path, auth, { playableDepth: 2 });
+  }
 
-  //   if (depth < 2) return null;
+  async getPresentations(path: string, _auth?: ContentProviderAuthData | null): Promise<Plan | null> {
+    const { segments, depth } = parsePath(path);
 
-  //   const study = findStudy(this.data, segments[0], segments[1]);
-  //   if (!study) return null;
+    if (depth < 2) return null;
 
-  //   if (depth === 2) return buildStudyPlan(study);
+    const study = findStudy(this.data, segments[0], segments[1]);
+    if (!study) return null;
 
-  //   if (depth === 3) {
-  //     const lesson = findLesson(this.data, segments[0], segments[1], segments[2]);
-  //     if (!lesson) return null;
-  //     return buildLessonPlan(lesson);
-  //   }
+    if (depth === 2) return buildStudyPlan(study);
 
-  //   return null;
-  // }
+    if (depth === 3) {
+      const lesson = findLesson(this.data, segments[0], segments[1], segments[2]);
+      if (!lesson) return null;
+      return buildLessonPlan(lesson);
+    }
+
+    return null;
+  }
 
-  async getPlaylist(path: string, _auth?: ContentProviderAuthData | null, _resolution?: number): Promise<ContentFile[] | null> {
+  /** Lesson files are bundled as single files, so the resolution is reported as fixed rather than negotiated */
+  async getPlaylist(path: string, _auth?: ContentProviderAuthData | null, _resolution?: number | RenditionRequest): Promise<ContentFile[] | null> {
     const { segments, depth } = parsePath(path);
 
     if (depth < 2) return null;
@@ -87,14 +104,14 @@ export class HighVoltageKidsProvider implements IProvider {
 
     if (depth === 2) {
       const files = buildStudyPlaylist(study);
-      return files.length > 0 ? files : null;
+      return files.length > 0 ? files.map(fixedRendition) : null;
     }
 
     if (depth === 3) {
       const lesson = findLesson(this.data, segments[0], segments[1], segments[2]);
       if (!lesson) return null;
       const files = buildLessonPlaylist(lesson);
-      return files.length > 0 ? files : null;
+      return files.length > 0 ? files.map(fixedRendition) : null;
     }
 
     return null;
@@ -1,16 +1,16 @@
 import { ProviderInfo, ProviderLogos, IProvider } from "../interfaces";
 import { APlayProvider } from "./aPlay";
-import { B1ChurchProvider } from "./b1Church";
-import { BibleProjectProvider } from "./bibleProject";
-import { HighVoltageKidsProvider } from "./highVoltage";
+import { B1ChurchProvider } from "./b1church";
+import { BibleProjectProvider } from "./bibleproject";
+import { HighVoltageKidsProvider } from "./highvoltage";
 import { LessonsChurchProvider } from "./lessonsChurch";
 import { PlanningCenterProvider } from "./planningCenter";
 import { SignPresenterProvider } from "./signPresenter";
 
 export { APlayProvider } from "./aPlay";
-export { B1ChurchProvider } from "./b1Church";
-export { BibleProjectProvider } from "./bibleProject";
-export { HighVoltageKidsProvider } from "./highVoltage";
+export { B1ChurchProvider } from "./b1church";
+export { BibleProjectProvider } from "./bibleproject";
+export { HighVoltageKidsProvider } from "./highvoltage";
 export { LessonsChurchProvider } from "./lessonsChurch";
 export { PlanningCenterProvider } from "./planningCenter";
 export { SignPresenterProvider } from "./signPresenter";
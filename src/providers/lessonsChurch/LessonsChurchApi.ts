@@ -1,12 +1,22 @@
+import { ProviderOptions } from "../../interfaces";
+import { httpFetch } from "../../helpers/HttpTransport";
+import { cachedRequest } from "../../cache";
+import { providerErrorFromException, providerErrorFromResponse, reportProviderError } from "../../errors";
+
 export const API_BASE = "https://api.lessons.church";
+const PROVIDER_ID = "lessonschurch";
+
+export async function apiRequest<T>(path: string, options?: ProviderOptions): Promise<T | null> {
+  return cachedRequest(options?.cache, PROVIDER_ID, path, null, () => sendRequest<T>(path, options));
+}
 
-export async function apiRequest<T>(path: string): Promise<T | null> {
+async function sendRequest<T>(path: string, options?: ProviderOptions): Promise<T | null> {
   try {
     const url = `${API_BASE}${path}`;
-    const response = await fetch(url, { method: "GET", headers: { Accept: "application/json" } });
-    if (!response.ok) return null;
+    const response = await httpFetch(url, { method: "GET", headers: { Accept: "application/json" } }, options?.transport);
+    if (!response.ok) return reportProviderError(providerErrorFromResponse(response, PROVIDER_ID, path), null);
     return await response.json();
-  } catch {
-    return null;
+  } catch (error) {
+    return reportProviderError(providerErrorFromException(error, PROVIDER_ID, path), null);
   }
 }
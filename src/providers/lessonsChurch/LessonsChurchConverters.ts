@@ -1,6 +1,6 @@
-import { ContentFile, FeedVenueInterface, Plan, PlanSection, PlanPresentation, InstructionItem, Instructions, VenueActionsResponseInterface } from "../../interfaces";
+import { ContentFile, FeedVenueInterface, Plan, PlanSection, PlanPresentation, InstructionItem, Instructions, MediaType, VenueActionsResponseInterface, ProviderOptions } from "../../interfaces";
 import { detectMediaType } from "../../utils";
-import { estimateImageDuration } from "../../durationUtils";
+import { estimateImageDuration, getProviderDurationProfile } from "../../durationUtils";
 import { apiRequest, API_BASE } from "./LessonsChurchApi";
 
 export function normalizeItemType(type?: string): string | undefined {
@@ -87,13 +87,13 @@ export function convertVenueToPlan(venue: FeedVenueInterface): Plan {
   return { id: venue.id || "", name: venue.lessonName || venue.name || "Plan", thumbnail: venue.lessonImage, sections, allFiles };
 }
 
-export async function convertAddOnToFile(addOn: Record<string, unknown>): Promise<ContentFile | null> {
+export async function convertAddOnToFile(addOn: Record<string, unknown>, options?: ProviderOptions): Promise<ContentFile | null> {
   const apiPath = `/addOns/public/${addOn.id as string}`;
-  const detail = await apiRequest<Record<string, unknown>>(apiPath);
+  const detail = await apiRequest<Record<string, unknown>>(apiPath, options);
   if (!detail) return null;
 
   let url = "";
-  let mediaType: "video" | "image" = "video";
+  let mediaType: MediaType = "video";
   let seconds = (addOn.seconds as number) || 10;
 
   const video = detail.video as Record<string, unknown> | undefined;
@@ -105,7 +105,7 @@ export async function convertAddOnToFile(addOn: Record<string, unknown>): Promis
   } else if (file) {
     url = file.contentPath as string;
     const fileType = file.fileType as string | undefined;
-    mediaType = fileType?.startsWith("video/") ? "video" : "image";
+    mediaType = detectMediaType(url, fileType);
   } else {
     return null;
   }
@@ -139,7 +139,7 @@ export function buildSectionActionsMap(actionsResponse: VenueActionsResponseInte
     for (const section of actionsResponse.sections) {
       if (section.id && section.actions) {
         sectionActionsMap.set(section.id, section.actions.map(action => {
-          const seconds = action.seconds ?? estimateImageDuration();
+          const seconds = action.seconds ?? estimateImageDuration(getProviderDurationProfile("lessonschurch"));
           const rawActionType = action.actionType?.toLowerCase() || "";
           const hasFiles = rawActionType === "play" || rawActionType === "add-on";
           const thumbnail = (action.id && actionThumbnailMap.get(action.id)) || lessonImage;
@@ -191,9 +191,9 @@ export function processInstructionItem(item: Record<string, unknown>, sectionAct
   return { id: item.id as string | undefined, itemType, relatedId, label: item.label as string | undefined, actionType: item.actionType as string | undefined, content: item.content as string | undefined, seconds: item.seconds as number | undefined, children: finalChildren, downloadUrl: undefined, thumbnail: isFileType ? thumbnail : undefined };
 }
 
-export async function convertAddOnCategoryToPlan(category: string): Promise<Plan | null> {
+export async function convertAddOnCategoryToPlan(category: string, options?: ProviderOptions): Promise<Plan | null> {
   const decodedCategory = decodeURIComponent(category);
-  const response = await apiRequest<Record<string, unknown>[]>("/addOns/public");
+  const response = await apiRequest<Record<string, unknown>[]>("/addOns/public", options);
   if (!response || !Array.isArray(response)) return null;
 
   const filtered = response.filter((a) => a.category === decodedCategory);
@@ -201,7 +201,7 @@ export async function convertAddOnCategoryToPlan(category: string): Promise<Plan
   const allFiles: ContentFile[] = [];
 
   for (const addOn of filtered) {
-    const file = await convertAddOnToFile(addOn);
+    const file = await convertAddOnToFile(addOn, options);
     if (file) {
       presentations.push({ id: addOn.id as string, name: addOn.name as string, actionType: "play", files: [file] });
       allFiles.push(file);
@@ -214,9 +214,9 @@ export async function convertAddOnCategoryToPlan(category: string): Promise<Plan
   return { id: `addons-${decodedCategory}`, name: decodedCategory, sections: [section], allFiles };
 }
 
-export async function convertAddOnCategoryToInstructions(category: string): Promise<Instructions | null> {
+export async function convertAddOnCategoryToInstructions(category: string, options?: ProviderOptions): Promise<Instructions | null> {
   const decodedCategory = decodeURIComponent(category);
-  const response = await apiRequest<Record<string, unknown>[]>("/addOns/public");
+  const response = await apiRequest<Record<string, unknown>[]>("/addOns/public", options);
   if (!response || !Array.isArray(response)) return null;
 
   const filtered = response.filter((a) => a.category === decodedCategory);
@@ -226,7 +226,7 @@ export async function convertAddOnCategoryToInstructions(category: string): Prom
     const id = addOn.id as string;
     const label = addOn.name as string;
     const addOnImage = addOn.image as string | undefined;
-    const file = await convertAddOnToFile(addOn);
+    const file = await convertAddOnToFile(addOn, options);
     const seconds = file?.seconds || (addOn.seconds as number) || 10;
     const downloadUrl = file?.url;
 
@@ -1,6 +1,10 @@
-import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, FeedVenueInterface, Instructions, VenueActionsResponseInterface, ProviderCapabilities, IProvider, AuthType } from "../../interfaces";
+import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, FeedVenueInterface, Instructions, VenueActionsResponseInterface, ProviderCapabilities, IProvider, AuthType, ProviderOptions, RenditionRequest, BrowsePage, BrowsePageOptions, SearchOptions, PathInfo } from "../../interfaces";
 import { detectMediaType } from "../../utils";
 import { parsePath, getSegment } from "../../pathUtils";
+import { resolvePathInfo } from "../../pathInfo";
+import { collectFolders, indexCollected } from "../../search";
+import { paginateItems } from "../../pagination";
+import { normalizeRenditionRequest, upstreamRendition } from "../../renditions";
 import { apiRequest, API_BASE } from "./LessonsChurchApi";
 import { convertVenueToPlan, convertAddOnToFile, convertAddOnCategoryToPlan, convertAddOnCategoryToInstructions, buildSectionActionsMap, processInstructionItem } from "./LessonsChurchConverters";
 
@@ -18,6 +22,16 @@ import { convertVenueToPlan, convertAddOnToFile, convertAddOnCategoryToPlan, con
  *   /addons/{category}                                  -> add-on files
  */
 export class LessonsChurchProvider implements IProvider {
+  private readonly options: ProviderOptions;
+
+  constructor(options: ProviderOptions = {}) {
+    this.options = options;
+  }
+
+  private async apiRequest<T>(path: string): Promise<T | null> {
+    return apiRequest<T>(path, this.options);
+  }
+
   readonly id = "lessonschurch";
   readonly name = "Lessons.church";
 
@@ -27,16 +41,18 @@ export class LessonsChurchProvider implements IProvider {
 
   readonly requiresAuth = false;
   readonly authTypes: AuthType[] = ["none"];
-  readonly capabilities: ProviderCapabilities = { browse: true, presentations: true, playlist: true, instructions: true, mediaLicensing: false };
+  readonly capabilities: ProviderCapabilities = { browse: true, presentations: true, playlist: true, instructions: true, mediaLicensing: false, pagination: true, search: true };
 
-  async getPlaylist(path: string, _auth?: ContentProviderAuthData | null, resolution?: number): Promise<ContentFile[] | null> {
+  /** The API picks the file for a resolution, so only maxHeight is passed on and the files report an upstream rendition */
+  async getPlaylist(path: string, _auth?: ContentProviderAuthData | null, resolution?: number | RenditionRequest): Promise<ContentFile[] | null> {
     const venueId = getSegment(path, 4);
     if (!venueId) return null;
 
+    const { maxHeight } = normalizeRenditionRequest(resolution);
     let apiPath = `/venues/playlist/${venueId}`;
-    if (resolution) apiPath += `?resolution=${resolution}`;
+    if (maxHeight) apiPath += `?resolution=${maxHeight}`;
 
-    const response = await apiRequest<Record<string, unknown>>(apiPath);
+    const response = await this.apiRequest<Record<string, unknown>>(apiPath);
     if (!response) return null;
 
     const files: ContentFile[] = [];
@@ -56,7 +72,7 @@ export class LessonsChurchProvider implements IProvider {
       }
     }
 
-    return files.length > 0 ? files : null;
+    return files.length > 0 ? files.map(upstreamRendition) : null;
   }
 
   async browse(path?: string | null, _auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
@@ -75,6 +91,26 @@ export class LessonsChurchProvider implements IProvider {
     return [];
   }
 
+  async getPathInfo(path: string, auth?: ContentProviderAuthData | null): Promise<PathInfo> {
+    return resolvePathInfo(this, path, auth);
+  }
+
+  /**
+   * The API returns whole lists, so pages are sliced from the full response (cached when a response cache is configured).
+   */
+  async browsePage(path: string | null | undefined, auth?: ContentProviderAuthData | null, options: BrowsePageOptions = {}): Promise<BrowsePage> {
+    return paginateItems(await this.browse(path, auth), options);
+  }
+
+  /** Searches programs, studies, lessons and add-ons; the listings are cached when a response cache is configured */
+  async search(query: string, options?: SearchOptions, _auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
+    const [lessons, addOns] = await Promise.all([
+      collectFolders((p) => this.browse(p), "/lessons", { maxDepth: 3 }),
+      collectFolders((p) => this.browse(p), "/addons", { maxDepth: 2, followLeaves: true })
+    ]);
+    return indexCollected([...lessons, ...addOns]).search(query, options);
+  }
+
   private async browseLessons(currentPath: string, segments: string[]): Promise<ContentItem[]> {
     const depth = segments.length;
 
@@ -88,7 +124,7 @@ export class LessonsChurchProvider implements IProvider {
   }
 
   private async getPrograms(): Promise<ContentItem[]> {
-    const response = await apiRequest<Record<string, unknown>[]>(this.config.endpoints.programs as string);
+    const response = await this.apiRequest<Record<string, unknown>[]>(this.config.endpoints.programs as string);
     if (!response) return [];
 
     const programs = Array.isArray(response) ? response : [];
@@ -103,7 +139,7 @@ export class LessonsChurchProvider implements IProvider {
 
   private async getStudies(programId: string, currentPath: string): Promise<ContentItem[]> {
     const pathFn = this.config.endpoints.studies as (id: string) => string;
-    const response = await apiRequest<Record<string, unknown>[]>(pathFn(programId));
+    const response = await this.apiRequest<Record<string, unknown>[]>(pathFn(programId));
     if (!response) return [];
 
     const studies = Array.isArray(response) ? response : [];
@@ -118,7 +154,7 @@ export class LessonsChurchProvider implements IProvider {
 
   private async getLessons(studyId: string, currentPath: string): Promise<ContentItem[]> {
     const pathFn = this.config.endpoints.lessons as (id: string) => string;
-    const response = await apiRequest<Record<string, unknown>[]>(pathFn(studyId));
+    const response = await this.apiRequest<Record<string, unknown>[]>(pathFn(studyId));
     if (!response) return [];
 
     const lessons = Array.isArray(response) ? response : [];
@@ -133,10 +169,10 @@ export class LessonsChurchProvider implements IProvider {
 
   private async getVenues(lessonId: string, currentPath: string): Promise<ContentItem[]> {
     const pathFn = this.config.endpoints.venues as (id: string) => string;
-    const response = await apiRequest<Record<string, unknown>[]>(pathFn(lessonId));
+    const response = await this.apiRequest<Record<string, unknown>[]>(pathFn(lessonId));
     if (!response) return [];
 
-    const lessonResponse = await apiRequest<Record<string, unknown>>(`/lessons/public/${lessonId}`);
+    const lessonResponse = await this.apiRequest<Record<string, unknown>>(`/lessons/public/${lessonId}`);
     const lessonImage = lessonResponse?.image as string | undefined;
 
     const venues = Array.isArray(response) ? response : [];
@@ -165,7 +201,7 @@ export class LessonsChurchProvider implements IProvider {
   }
 
   private async getAddOnCategories(): Promise<ContentItem[]> {
-    const response = await apiRequest<Record<string, unknown>[]>(this.config.endpoints.addOns as string);
+    const response = await this.apiRequest<Record<string, unknown>[]>(this.config.endpoints.addOns as string);
     if (!response) return [];
 
     const addOns = Array.isArray(response) ? response : [];
@@ -183,7 +219,7 @@ export class LessonsChurchProvider implements IProvider {
   private async getAddOnsByCategory(category: string): Promise<ContentItem[]> {
     const decodedCategory = decodeURIComponent(category);
 
-    const response = await apiRequest<Record<string, unknown>[]>(this.config.endpoints.addOns as string);
+    const response = await this.apiRequest<Record<string, unknown>[]>(this.config.endpoints.addOns as string);
     if (!response) return [];
 
     const allAddOns = Array.isArray(response) ? response : [];
@@ -191,35 +227,35 @@ export class LessonsChurchProvider implements IProvider {
 
     const files: ContentFile[] = [];
     for (const addOn of filtered) {
-      const file = await convertAddOnToFile(addOn);
+      const file = await convertAddOnToFile(addOn, this.options);
       if (file) files.push(file);
     }
     return files;
   }
 
-  // async getPresentations(path: string, _auth?: ContentProviderAuthData | null): Promise<Plan | null> {
-  //   const venueId = getSegment(path, 4);
-  //   if (venueId) {
-  //     const venueData = await apiRequest<FeedVenueInterface>(`/venues/public/feed/${venueId}`);
-  //     if (!venueData) return null;
-  //     return convertVenueToPlan(venueData);
-  //   }
+  async getPresentations(path: string, _auth?: ContentProviderAuthData | null): Promise<Plan | null> {
+    const venueId = getSegment(path, 4);
+    if (venueId) {
+      const venueData = await this.apiRequest<FeedVenueInterface>(`/venues/public/feed/${venueId}`);
+      if (!venueData) return null;
+      return convertVenueToPlan(venueData);
+    }
 
-  //   const { segments } = parsePath(path);
-  //   if (segments[0] === "addons" && segments.length === 2) {
-  //     return convertAddOnCategoryToPlan(segments[1]);
-  //   }
+    const { segments } = parsePath(path);
+    if (segments[0] === "addons" && segments.length === 2) {
+      return convertAddOnCategoryToPlan(segments[1], this.options);
+    }
 
-  //   return null;
-  // }
+    return null;
+  }
 
   async getInstructions(path: string, _auth?: ContentProviderAuthData | null): Promise<Instructions | null> {
     const venueId = getSegment(path, 4);
     if (venueId) {
       const [planItemsResponse, actionsResponse, feedResponse] = await Promise.all([
-        apiRequest<{ venueName?: string; items?: Record<string, unknown>[] }>(`/venues/public/planItems/${venueId}`),
-        apiRequest<VenueActionsResponseInterface>(`/venues/public/actions/${venueId}`),
-        apiRequest<FeedVenueInterface>(`/venues/public/feed/${venueId}`)
+        this.apiRequest<{ venueName?: string; items?: Record<string, unknown>[] }>(`/venues/public/planItems/${venueId}`),
+        this.apiRequest<VenueActionsResponseInterface>(`/venues/public/actions/${venueId}`),
+        this.apiRequest<FeedVenueInterface>(`/venues/public/feed/${venueId}`)
       ]);
 
       if (!planItemsResponse) return null;
@@ -232,7 +268,7 @@ export class LessonsChurchProvider implements IProvider {
 
     const { segments } = parsePath(path);
     if (segments[0] === "addons" && segments.length === 2) {
-      return convertAddOnCategoryToInstructions(segments[1]);
+      return convertAddOnCategoryToInstructions(segments[1], this.options);
     }
 
     return null;
@@ -1,23 +1,21 @@
-import { ContentProviderConfig, ContentProviderAuthData, ContentFile, PlanPresentation, Instructions, InstructionItem, Plan } from "../../interfaces";
+import { ContentProviderConfig, ContentProviderAuthData, ContentFile, PlanPresentation, Instructions, InstructionItem, Plan, ProviderOptions } from "../../interfaces";
 import { detectMediaType } from "../../utils";
 import { ApiHelper } from "../../helpers";
 import { PCOPlanItem, PCOSong, PCOArrangement, PCOSection, PCOAttachment } from "./PlanningCenterInterfaces";
 
-const apiHelper = new ApiHelper();
-
-async function apiRequest<T>(config: ContentProviderConfig, providerId: string, path: string, auth?: ContentProviderAuthData | null): Promise<T | null> {
-  return apiHelper.apiRequest<T>(config, providerId, path, auth);
+async function apiRequest<T>(config: ContentProviderConfig, providerId: string, path: string, auth?: ContentProviderAuthData | null, options?: ProviderOptions): Promise<T | null> {
+  return new ApiHelper(options).apiRequest<T>(config, providerId, path, auth);
 }
 
-export async function convertToPresentation(config: ContentProviderConfig, item: PCOPlanItem, auth?: ContentProviderAuthData | null): Promise<PlanPresentation | null> {
+export async function convertToPresentation(config: ContentProviderConfig, item: PCOPlanItem, auth?: ContentProviderAuthData | null, options?: ProviderOptions): Promise<PlanPresentation | null> {
   const itemType = item.attributes.item_type;
 
   if (itemType === "song") {
-    return convertSongToPresentation(config, item, auth);
+    return convertSongToPresentation(config, item, auth, options);
   }
 
   if (itemType === "media") {
-    return convertMediaToPresentation(config, item, auth);
+    return convertMediaToPresentation(config, item, auth, options);
   }
 
   if (itemType === "item") {
@@ -27,7 +25,7 @@ export async function convertToPresentation(config: ContentProviderConfig, item:
   return null;
 }
 
-async function convertSongToPresentation(config: ContentProviderConfig, item: PCOPlanItem, auth?: ContentProviderAuthData | null): Promise<PlanPresentation | null> {
+async function convertSongToPresentation(config: ContentProviderConfig, item: PCOPlanItem, auth?: ContentProviderAuthData | null, options?: ProviderOptions): Promise<PlanPresentation | null> {
   const songId = item.relationships?.song?.data?.id;
   const arrangementId = item.relationships?.arrangement?.data?.id;
 
@@ -36,7 +34,7 @@ async function convertSongToPresentation(config: ContentProviderConfig, item: PC
   }
 
   const songFn = config.endpoints.song as (id: string) => string;
-  const songResponse = await apiRequest<{ data: PCOSong }>(config, config.id, songFn(songId), auth);
+  const songResponse = await apiRequest<{ data: PCOSong }>(config, config.id, songFn(songId), auth, options);
 
   let arrangement: PCOArrangement | null = null;
   let sections: PCOSection[] = [];
@@ -46,7 +44,8 @@ async function convertSongToPresentation(config: ContentProviderConfig, item: PC
     const arrangementResponse = await apiRequest<{ data: PCOArrangement }>(
       config, config.id,
       arrangementFn(songId, arrangementId),
-      auth
+      auth,
+      options
     );
     arrangement = arrangementResponse?.data || null;
 
@@ -54,7 +53,8 @@ async function convertSongToPresentation(config: ContentProviderConfig, item: PC
     const sectionsResponse = await apiRequest<{ data: { attributes: { sections: PCOSection[] } }[] }>(
       config, config.id,
       sectionsFn(songId, arrangementId),
-      auth
+      auth,
+      options
     );
     sections = sectionsResponse?.data?.[0]?.attributes?.sections || [];
   }
@@ -65,7 +65,7 @@ async function convertSongToPresentation(config: ContentProviderConfig, item: PC
   return { id: item.id, name: title, actionType: "other", files: [], providerData: { itemType: "song", title, author: song?.attributes?.author, copyright: song?.attributes?.copyright, ccliNumber: song?.attributes?.ccli_number, arrangementName: arrangement?.attributes?.name, keySignature: arrangement?.attributes?.chord_chart_key, bpm: arrangement?.attributes?.bpm, sequence: arrangement?.attributes?.sequence, sections: sections.map(s => ({ label: s.label, lyrics: s.lyrics })), length: item.attributes.length } };
 }
 
-async function convertMediaToPresentation(config: ContentProviderConfig, item: PCOPlanItem, auth?: ContentProviderAuthData | null): Promise<PlanPresentation | null> {
+async function convertMediaToPresentation(config: ContentProviderConfig, item: PCOPlanItem, auth?: ContentProviderAuthData | null, options?: ProviderOptions): Promise<PlanPresentation | null> {
   const files: ContentFile[] = [];
 
   const mediaFn = config.endpoints.media as (id: string) => string;
@@ -74,24 +74,23 @@ async function convertMediaToPresentation(config: ContentProviderConfig, item: P
   const mediaResponse = await apiRequest<{ data: { id: string; attributes: { title?: string; length?: number } } }>(
     config, config.id,
     mediaFn(item.id),
-    auth
+    auth,
+    options
   );
 
   if (mediaResponse?.data) {
     const attachmentsResponse = await apiRequest<{ data: PCOAttachment[] }>(
       config, config.id,
       mediaAttachmentsFn(mediaResponse.data.id),
-      auth
+      auth,
+      options
     );
 
     for (const attachment of attachmentsResponse?.data || []) {
       const url = attachment.attributes.url;
       if (!url) continue;
 
-      const contentType = attachment.attributes.content_type;
-      const explicitType = contentType?.startsWith("video/") ? "video" : undefined;
-
-      files.push({ type: "file", id: attachment.id, title: attachment.attributes.filename, mediaType: detectMediaType(url, explicitType), url });
+      files.push({ type: "file", id: attachment.id, title: attachment.attributes.filename, mediaType: detectMediaType(url, attachment.attributes.content_type), url });
     }
   }
 
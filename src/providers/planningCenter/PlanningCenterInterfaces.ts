@@ -1,3 +1,10 @@
+/** JSON:API list envelope */
+export interface PCOListResponse<T> {
+  data: T[];
+  links?: { self?: string; next?: string };
+  meta?: { total_count?: number; count?: number };
+}
+
 export interface PCOServiceType {
   id: string;
   type: string;
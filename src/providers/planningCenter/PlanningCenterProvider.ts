@@ -1,7 +1,14 @@
-import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, PlanSection, ProviderCapabilities, IProvider, AuthType, Instructions } from "../../interfaces";
+import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, PlanSection, ProviderCapabilities, IProvider, AuthType, Instructions, ProviderOptions, RenditionRequest, BrowsePage, BrowsePageOptions, SearchOptions, ContentFolder, RecentPlan, PathInfo } from "../../interfaces";
 import { parsePath } from "../../pathUtils";
+import { resolvePathInfo } from "../../pathInfo";
+import { collectFolders, indexCollected } from "../../search";
+import { paginateItems } from "../../pagination";
+import { fixedRendition } from "../../renditions";
+import { selectRecentPlans } from "../../utils";
 import { ApiHelper } from "../../helpers";
-import { PCOServiceType, PCOPlan, PCOPlanItem } from "./PlanningCenterInterfaces";
+import { ResponseCache, getDefaultResponseCache } from "../../cache";
+import { ProviderError, InvalidResponseError, reportProviderError } from "../../errors";
+import { PCOServiceType, PCOPlan, PCOPlanItem, PCOListResponse } from "./PlanningCenterInterfaces";
 import { convertToPresentation, formatDate, buildInstructionsFromPlan } from "./PlanningCenterConverters";
 
 /**
@@ -13,10 +20,19 @@ import { convertToPresentation, formatDate, buildInstructionsFromPlan } from "./
  *   /serviceTypes/{serviceTypeId}/{planId}   -> plan items (leaf)
  */
 export class PlanningCenterProvider implements IProvider {
-  private readonly apiHelper = new ApiHelper();
+  private readonly options: ProviderOptions;
+  private readonly apiHelper: ApiHelper;
+  /** Used by search crawls when no response cache is configured, so repeated searches reuse the listings */
+  private readonly crawlApiHelper: ApiHelper;
+
+  constructor(options: ProviderOptions = {}) {
+    this.options = options;
+    this.apiHelper = new ApiHelper(options);
+    this.crawlApiHelper = new ApiHelper({ ...options, cache: new ResponseCache() });
+  }
 
-  private async apiRequest<T>(path: string, auth?: ContentProviderAuthData | null): Promise<T | null> {
-    return this.apiHelper.apiRequest<T>(this.config, this.id, path, auth);
+  private async apiRequest<T>(path: string, auth?: ContentProviderAuthData | null, api: ApiHelper = this.apiHelper): Promise<T | null> {
+    return api.apiRequest<T>(this.config, this.id, path, auth);
   }
 
   readonly id = "planningcenter";
@@ -27,12 +43,18 @@ export class PlanningCenterProvider implements IProvider {
   readonly config: ContentProviderConfig = { id: "planningcenter", name: "Planning Center", apiBase: "https://api.planningcenteronline.com", oauthBase: "https://api.planningcenteronline.com/oauth", clientId: "", scopes: ["services"], endpoints: { serviceTypes: "/services/v2/service_types", plans: (serviceTypeId: string) => `/services/v2/service_types/${serviceTypeId}/plans`, planItems: (serviceTypeId: string, planId: string) => `/services/v2/service_types/${serviceTypeId}/plans/${planId}/items`, song: (itemId: string) => `/services/v2/songs/${itemId}`, arrangement: (songId: string, arrangementId: string) => `/services/v2/songs/${songId}/arrangements/${arrangementId}`, arrangementSections: (songId: string, arrangementId: string) => `/services/v2/songs/${songId}/arrangements/${arrangementId}/sections`, media: (mediaId: string) => `/services/v2/media/${mediaId}`, mediaAttachments: (mediaId: string) => `/services/v2/media/${mediaId}/attachments` } };
 
   private readonly ONE_WEEK_MS = 604800000;
+  /** PCO caps per_page at 100 */
+  private readonly PAGE_SIZE = 100;
 
   readonly requiresAuth = true;
   readonly authTypes: AuthType[] = ["oauth_pkce"];
-  readonly capabilities: ProviderCapabilities = { browse: true, presentations: true, playlist: true, instructions: true, mediaLicensing: false };
+  readonly capabilities: ProviderCapabilities = { browse: true, presentations: true, playlist: true, instructions: true, mediaLicensing: false, pagination: true, search: true, recentPlans: true };
 
   async browse(path?: string | null, auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
+    return this.browseWith(path, auth, this.apiHelper);
+  }
+
+  private async browseWith(path: string | null | undefined, auth: ContentProviderAuthData | null | undefined, api: ApiHelper): Promise<ContentItem[]> {
     const { segments, depth } = parsePath(path);
 
     if (depth === 0) {
@@ -42,22 +64,104 @@ export class PlanningCenterProvider implements IProvider {
     const root = segments[0];
     if (root !== "serviceTypes") return [];
 
-    if (depth === 1) return this.getServiceTypes(auth);
-    if (depth === 2) return this.getPlans(segments[1], path!, auth);
-    if (depth === 3) return this.getPlanItems(segments[1], segments[2], auth);
+    if (depth === 1) return this.toServiceTypeFolders(await this.fetchAllPages<PCOServiceType>(this.config.endpoints.serviceTypes as string, auth, api));
+    if (depth === 2) return this.toPlanFolders(await this.fetchAllPages<PCOPlan>(this.plansPath(segments[1]), auth, api), path!);
+    if (depth === 3) return this.toPlanItemFiles(await this.fetchAllPages<PCOPlanItem>(this.planItemsPath(segments[1], segments[2]), auth, api));
 
     return [];
   }
 
-  private async getServiceTypes(auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
-    const response = await this.apiRequest<{ data: PCOServiceType[] }>(
-      this.config.endpoints.serviceTypes as string,
-      auth
-    );
+  async getPathInfo(path: string, auth?: ContentProviderAuthData | null): Promise<PathInfo> {
+    return resolvePathInfo(this, path, auth);
+  }
+
+  /** Searches service types and upcoming plans; the listings are cached (in this provider's memory when no response cache is set) */
+  async search(query: string, options?: SearchOptions, auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
+    const api = this.options.cache === undefined && !getDefaultResponseCache() ? this.crawlApiHelper : this.apiHelper;
+    const collected = await collectFolders((p, a) => this.browseWith(p, a, api), "/serviceTypes", { maxDepth: 2 }, auth);
+    return indexCollected(collected).search(query, options);
+  }
+
+  /** Upcoming plans (the same ones browse lists) across every service type */
+  async getRecentPlans(auth?: ContentProviderAuthData | null, options: { limit?: number } = {}): Promise<RecentPlan[]> {
+    const serviceTypes = await this.fetchAllPages<PCOServiceType>(this.config.endpoints.serviceTypes as string, auth);
+    const perType = await Promise.all(serviceTypes.map(async (serviceType) => {
+      const plans = await this.fetchAllPages<PCOPlan>(this.plansPath(serviceType.id), auth);
+      const dates = new Map(plans.map(p => [p.id, p.attributes.sort_date]));
+      return this.toPlanFolders(plans, `/serviceTypes/${serviceType.id}`).map(folder => ({ folder, date: dates.get(folder.id)! }));
+    }));
+    return selectRecentPlans(perType.flat(), options.limit);
+  }
+
+  /**
+   * One page of a folder, following PCO's JSON:API links.next.
+   * The cursor is the API path of the next page.
+   */
+  async browsePage(path: string | null | undefined, auth?: ContentProviderAuthData | null, options: BrowsePageOptions = {}): Promise<BrowsePage> {
+    const { segments, depth } = parsePath(path);
+    if (depth === 0 || segments[0] !== "serviceTypes" || depth > 3) return paginateItems(await this.browse(path, auth), options);
+
+    if (depth === 1) {
+      const page = await this.fetchPage<PCOServiceType>(this.config.endpoints.serviceTypes as string, auth, options);
+      return { ...page, items: this.toServiceTypeFolders(page.data) };
+    }
+    if (depth === 2) {
+      const page = await this.fetchPage<PCOPlan>(this.plansPath(segments[1]), auth, options);
+      return { ...page, items: this.toPlanFolders(page.data, path!) };
+    }
+    const page = await this.fetchPage<PCOPlanItem>(this.planItemsPath(segments[1], segments[2]), auth, options);
+    return { ...page, items: this.toPlanItemFiles(page.data) };
+  }
+
+  private plansPath(serviceTypeId: string): string {
+    const pathFn = this.config.endpoints.plans as (id: string) => string;
+    return `${pathFn(serviceTypeId)}?filter=future&order=sort_date`;
+  }
 
-    if (!response?.data) return [];
+  private planItemsPath(serviceTypeId: string, planId: string): string {
+    const pathFn = this.config.endpoints.planItems as (stId: string, pId: string) => string;
+    return pathFn(serviceTypeId, planId);
+  }
 
-    return response.data.map((serviceType) => ({
+  private async fetchPage<T>(basePath: string, auth: ContentProviderAuthData | null | undefined, options: BrowsePageOptions, api: ApiHelper = this.apiHelper): Promise<{ data: T[]; nextCursor: string | null; total?: number }> {
+    const pageSize = Math.min(options.pageSize ?? this.PAGE_SIZE, this.PAGE_SIZE);
+    if (options.cursor && !this.isCursorFor(options.cursor, basePath)) {
+      return reportProviderError(new ProviderError("unknown", `${this.id} cursor ${options.cursor} is not a page of ${basePath}`, { providerId: this.id, path: basePath }), { data: [], nextCursor: null });
+    }
+    const requestPath = options.cursor || `${basePath}${basePath.includes("?") ? "&" : "?"}per_page=${pageSize}`;
+    const response = await this.apiRequest<PCOListResponse<T>>(requestPath, auth, api);
+    return { data: response?.data || [], nextCursor: this.nextCursor(response?.links?.next, requestPath), total: response?.meta?.total_count };
+  }
+
+  /** Cursors are API paths of the folder being browsed, with paging parameters */
+  private isCursorFor(cursor: string, basePath: string): boolean {
+    const path = basePath.split("?")[0];
+    return cursor === path || cursor.startsWith(`${path}?`);
+  }
+
+  /** The next link as an API path; links to another host are reported and end the paging */
+  private nextCursor(next: string | undefined, requestPath: string): string | null {
+    if (!next) return null;
+    const url = new URL(next, this.config.apiBase);
+    if (url.origin !== new URL(this.config.apiBase).origin) {
+      return reportProviderError(new InvalidResponseError(`${this.id} returned a next page link on another host: ${url.origin}`, { providerId: this.id, path: requestPath }), null);
+    }
+    return url.pathname + url.search;
+  }
+
+  private async fetchAllPages<T>(basePath: string, auth?: ContentProviderAuthData | null, api: ApiHelper = this.apiHelper): Promise<T[]> {
+    const all: T[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: { data: T[]; nextCursor: string | null } = await this.fetchPage<T>(basePath, auth, { cursor }, api);
+      all.push(...page.data);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return all;
+  }
+
+  private toServiceTypeFolders(serviceTypes: PCOServiceType[]): ContentItem[] {
+    return serviceTypes.map((serviceType) => ({
       type: "folder" as const,
       id: serviceType.id,
       title: serviceType.attributes.name,
@@ -65,17 +169,9 @@ export class PlanningCenterProvider implements IProvider {
     }));
   }
 
-  private async getPlans(serviceTypeId: string, currentPath: string, auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
-    const pathFn = this.config.endpoints.plans as (id: string) => string;
-    const response = await this.apiRequest<{ data: PCOPlan[] }>(
-      `${pathFn(serviceTypeId)}?filter=future&order=sort_date`,
-      auth
-    );
-
-    if (!response?.data) return [];
-
+  private toPlanFolders(plans: PCOPlan[], currentPath: string): ContentFolder[] {
     const now = Date.now();
-    const filteredPlans = response.data.filter((plan) => {
+    const filteredPlans = plans.filter((plan) => {
       if (plan.attributes.items_count === 0) return false;
       const planDate = new Date(plan.attributes.sort_date).getTime();
       return planDate < now + this.ONE_WEEK_MS;
@@ -90,81 +186,69 @@ export class PlanningCenterProvider implements IProvider {
     }));
   }
 
-  private async getPlanItems(serviceTypeId: string, planId: string, auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
-    const pathFn = this.config.endpoints.planItems as (stId: string, pId: string) => string;
-    const response = await this.apiRequest<{ data: PCOPlanItem[] }>(
-      `${pathFn(serviceTypeId, planId)}?per_page=100`,
-      auth
-    );
-
-    if (!response?.data) return [];
-
-    return response.data.map((item) => ({ type: "file" as const, id: item.id, title: item.attributes.title || "", mediaType: "image" as const, url: "" }));
+  private toPlanItemFiles(items: PCOPlanItem[]): ContentItem[] {
+    return items.map((item) => ({ type: "file" as const, id: item.id, title: item.attributes.title || "", mediaType: "image" as const, url: "" }));
   }
 
-  // async getPresentations(path: string, auth?: ContentProviderAuthData | null): Promise<Plan | null> {
-  //   const { segments, depth } = parsePath(path);
-
-  //   if (depth < 3 || segments[0] !== "serviceTypes") return null;
+  async getPresentations(path: string, auth?: ContentProviderAuthData | null): Promise<Plan | null> {
+    const { segments, depth } = parsePath(path);
 
-  //   const serviceTypeId = segments[1];
-  //   const planId = segments[2];
+    if (depth < 3 || segments[0] !== "serviceTypes") return null;
 
-  //   const pathFn = this.config.endpoints.planItems as (stId: string, pId: string) => string;
-  //   const response = await this.apiRequest<{ data: PCOPlanItem[] }>(
-  //     `${pathFn(serviceTypeId, planId)}?per_page=100`,
-  //     auth
-  //   );
+    const serviceTypeId = segments[1];
+    const planId = segments[2];
 
-  //   if (!response?.data) return null;
+    const planItems = await this.fetchAllPages<PCOPlanItem>(this.planItemsPath(serviceTypeId, planId), auth);
+    if (planItems.length === 0) return null;
 
-  //   const plans = await this.getPlans(serviceTypeId, `/serviceTypes/${serviceTypeId}`, auth);
-  //   const plan = plans.find(p => p.id === planId);
-  //   const planTitle = plan?.title || "Plan";
+    const plans = this.toPlanFolders(await this.fetchAllPages<PCOPlan>(this.plansPath(serviceTypeId), auth), `/serviceTypes/${serviceTypeId}`);
+    const plan = plans.find(p => p.id === planId);
+    const planTitle = plan?.title || "Plan";
 
-  //   const sections: PlanSection[] = [];
-  //   const allFiles: ContentFile[] = [];
-  //   let currentSection: PlanSection | null = null;
+    const sections: PlanSection[] = [];
+    const allFiles: ContentFile[] = [];
+    let currentSection: PlanSection | null = null;
 
-  //   for (const item of response.data) {
-  //     const itemType = item.attributes.item_type;
+    for (const item of planItems) {
+      const itemType = item.attributes.item_type;
 
-  //     if (itemType === "header") {
-  //       if (currentSection && currentSection.presentations.length > 0) sections.push(currentSection);
-  //       currentSection = { id: item.id, name: item.attributes.title || "Section", presentations: [] };
-  //       continue;
-  //     }
+      if (itemType === "header") {
+        if (currentSection && currentSection.presentations.length > 0) sections.push(currentSection);
+        currentSection = { id: item.id, name: item.attributes.title || "Section", presentations: [] };
+        continue;
+      }
 
-  //     if (!currentSection) {
-  //       currentSection = { id: `default-${planId}`, name: "Service", presentations: [] };
-  //     }
+      if (!currentSection) {
+        currentSection = { id: `default-${planId}`, name: "Service", presentations: [] };
+      }
 
-  //     const presentation = await convertToPresentation(this.config, item, auth);
-  //     if (presentation) {
-  //       currentSection.presentations.push(presentation);
-  //       allFiles.push(...presentation.files);
-  //     }
-  //   }
+      const presentation = await convertToPresentation(this.config, item, auth, this.options);
+      if (presentation) {
+        currentSection.presentations.push(presentation);
+        allFiles.push(...presentation.files);
+      }
+    }
 
-  //   if (currentSection && currentSection.presentations.length > 0) {
-  //     sections.push(currentSection);
-  //   }
+    if (currentSection && currentSection.presentations.length > 0) {
+      sections.push(currentSection);
+    }
 
-  //   return { id: planId, name: planTitle as string, sections, allFiles };
-  // }
+    return { id: planId, name: planTitle as string, sections, allFiles };
+  }
 
-  // async getPlaylist(path: string, auth?: ContentProviderAuthData | null, _resolution?: number): Promise<ContentFile[] | null> {
-  //   const plan = await this.getPresentations(path, auth);
-  //   if (!plan) return null;
-  //   return plan.allFiles.length > 0 ? plan.allFiles : null;
-  // }
+  /** Attachments are single files, so the resolution is reported as fixed rather than negotiated */
+  async getPlaylist(path: string, auth?: ContentProviderAuthData | null, _resolution?: number | RenditionRequest): Promise<ContentFile[] | null> {
+    const plan = await this.getPresentations(path, auth);
+    if (!plan) return null;
+    return plan.allFiles.length > 0 ? plan.allFiles.map(fixedRendition) : null;
+  }
 
-  // async getInstructions(path: string, auth?: ContentProviderAuthData | null): Promise<Instructions | null> {
-  //   const plan = await this.getPresentations(path, auth);
-  //   if (!plan) return null;
+  async getInstructions(path: string, auth?: ContentProviderAuthData | null): Promise<Instructions | null> {
+    const plan = await this.getPresentations(path, auth);
+    if (!plan) return null;
 
-  //   return buildInstructionsFromPlan(plan);
-  // }
+    return buildInstructionsFromPlan(plan);
+  }
 
   supportsDeviceFlow(): boolean {
     return false;
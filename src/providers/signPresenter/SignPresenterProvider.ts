@@ -1,6 +1,9 @@
-import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, PlanPresentation, ProviderCapabilities, IProvider, AuthType, Instructions, InstructionItem, DeviceAuthorizationResponse, DeviceFlowPollResult } from "../../interfaces";
+import { ContentProviderConfig, ContentProviderAuthData, ContentItem, ContentFile, ProviderLogos, Plan, PlanPresentation, ProviderCapabilities, IProvider, AuthType, Instructions, InstructionItem, DeviceAuthorizationResponse, DeviceFlowPollResult, ProviderOptions, RenditionRequest, SearchOptions, PathInfo } from "../../interfaces";
 import { detectMediaType, createFile } from "../../utils";
 import { parsePath } from "../../pathUtils";
+import { resolvePathInfo } from "../../pathInfo";
+import { fixedRendition } from "../../renditions";
+import { collectFolders, indexCollected } from "../../search";
 import { ApiHelper, OAuthHelper, DeviceFlowHelper } from "../../helpers";
 
 /**
@@ -11,9 +14,15 @@ import { ApiHelper, OAuthHelper, DeviceFlowHelper } from "../../helpers";
  *   /playlists/{playlistId}       -> list messages (files)
  */
 export class SignPresenterProvider implements IProvider {
-  private readonly apiHelper = new ApiHelper();
-  private readonly oauthHelper = new OAuthHelper();
-  private readonly deviceFlowHelper = new DeviceFlowHelper();
+  private readonly apiHelper: ApiHelper;
+  private readonly oauthHelper: OAuthHelper;
+  private readonly deviceFlowHelper: DeviceFlowHelper;
+
+  constructor(options: ProviderOptions = {}) {
+    this.apiHelper = new ApiHelper(options);
+    this.oauthHelper = new OAuthHelper(options.transport);
+    this.deviceFlowHelper = new DeviceFlowHelper(options.transport);
+  }
 
   private async apiRequest<T>(path: string, auth?: ContentProviderAuthData | null): Promise<T | null> {
     return this.apiHelper.apiRequest<T>(this.config, this.id, path, auth);
@@ -27,7 +36,7 @@ export class SignPresenterProvider implements IProvider {
 
   readonly requiresAuth = true;
   readonly authTypes: AuthType[] = ["oauth_pkce", "device_flow"];
-  readonly capabilities: ProviderCapabilities = { browse: true, presentations: true, playlist: true, instructions: true, mediaLicensing: false };
+  readonly capabilities: ProviderCapabilities = { browse: true, presentations: true, playlist: true, instructions: true, mediaLicensing: false, search: true };
 
   async browse(path?: string | null, auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
     const { segments, depth } = parsePath(path);
@@ -58,6 +67,16 @@ export class SignPresenterProvider implements IProvider {
     return [];
   }
 
+  async getPathInfo(path: string, auth?: ContentProviderAuthData | null): Promise<PathInfo> {
+    return resolvePathInfo(this, path, auth);
+  }
+
+  /** Searches playlists; the listings are cached when a response cache is configured */
+  async search(query: string, options?: SearchOptions, auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
+    const collected = await collectFolders((p, a) => this.browse(p, a), "/playlists", { maxDepth: 1 }, auth);
+    return indexCollected(collected).search(query, options);
+  }
+
   private async getPlaylists(auth?: ContentProviderAuthData | null): Promise<ContentItem[]> {
     const apiPath = this.config.endpoints.playlists as string;
     const response = await this.apiRequest<unknown>(apiPath, auth);
@@ -114,33 +133,34 @@ export class SignPresenterProvider implements IProvider {
     return files;
   }
 
-  // async getPresentations(path: string, auth?: ContentProviderAuthData | null): Promise<Plan | null> {
-  //   const { segments, depth } = parsePath(path);
+  async getPresentations(path: string, auth?: ContentProviderAuthData | null): Promise<Plan | null> {
+    const { segments, depth } = parsePath(path);
 
-  //   if (depth < 2 || segments[0] !== "playlists") return null;
+    if (depth < 2 || segments[0] !== "playlists") return null;
 
-  //   const playlistId = segments[1];
-  //   const files = await this.getMessages(playlistId, auth) as ContentFile[];
-  //   if (files.length === 0) return null;
+    const playlistId = segments[1];
+    const files = await this.getMessages(playlistId, auth) as ContentFile[];
+    if (files.length === 0) return null;
 
-  //   // Get playlist info for title
-  //   const playlists = await this.getPlaylists(auth);
-  //   const playlist = playlists.find(p => p.id === playlistId);
-  //   const title = playlist?.title || "Playlist";
-  //   const thumbnail = (playlist as Record<string, unknown> | undefined)?.image as string | undefined;
+    // Get playlist info for title
+    const playlists = await this.getPlaylists(auth);
+    const playlist = playlists.find(p => p.id === playlistId);
+    const title = playlist?.title || "Playlist";
+    const thumbnail = playlist?.thumbnail;
 
-  //   const presentations: PlanPresentation[] = files.map(f => ({ id: f.id, name: f.title, actionType: "play" as const, files: [f] }));
-  //   return { id: playlistId, name: title as string, thumbnail, sections: [{ id: `section-${playlistId}`, name: title as string, presentations }], allFiles: files };
-  // }
+    const presentations: PlanPresentation[] = files.map(f => ({ id: f.id, name: f.title, actionType: "play" as const, files: [f] }));
+    return { id: playlistId, name: title as string, thumbnail, sections: [{ id: `section-${playlistId}`, name: title as string, presentations }], allFiles: files };
+  }
 
-  async getPlaylist(path: string, auth?: ContentProviderAuthData | null, _resolution?: number): Promise<ContentFile[] | null> {
+  /** SignPresenter has one file per message, so the resolution is reported as fixed rather than negotiated */
+  async getPlaylist(path: string, auth?: ContentProviderAuthData | null, _resolution?: number | RenditionRequest): Promise<ContentFile[] | null> {
     const { segments, depth } = parsePath(path);
 
     if (depth < 2 || segments[0] !== "playlists") return null;
 
     const playlistId = segments[1];
     const files = await this.getMessages(playlistId, auth) as ContentFile[];
-    return files.length > 0 ? files : null;
+    return files.length > 0 ? files.map(fixedRendition) : null;
   }
 
   async getInstructions(path: string, auth?: ContentProviderAuthData | null): Promise<Instructions | null> {
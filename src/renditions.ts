@@ -0,0 +1,96 @@
+/**
+ * Rendition negotiation shared by providers: turn a RenditionRequest (or the legacy resolution number) into what
+ * a provider can offer, and record the choice on ContentFile.rendition.
+ */
+
+import type { ContentFile, ContentFileRendition, RenditionMatch, RenditionRequest } from "./interfaces";
+import { MuxHelper, type MuxMp4Rendition } from "./helpers/MuxHelper";
+
+const mux = new MuxHelper();
+
+/** Minimum bandwidth (kbps) for each height; below the last step the smallest height is used */
+const BANDWIDTH_LADDER = [
+  { kbps: 15000, height: 2160 },
+  { kbps: 9000, height: 1440 },
+  { kbps: 5000, height: 1080 },
+  { kbps: 2500, height: 720 },
+  { kbps: 1500, height: 540 },
+  { kbps: 1000, height: 480 },
+  { kbps: 600, height: 360 }
+];
+
+/** Heights accepted by Mux's max_resolution playback modifier */
+const MUX_STREAM_HEIGHTS = [270, 360, 480, 540, 720, 1080, 1440, 2160];
+
+/**
+ * Static MP4 renditions of a Mux asset:
+ *   capped - assets created with mp4_support "capped-1080p"
+ *   standard - legacy assets with low, medium and high MP4s
+ */
+export type MuxMp4Support = "capped" | "standard";
+
+const MUX_MP4_RENDITIONS: Record<MuxMp4Support, { name: MuxMp4Rendition; height: number }[]> = {
+  capped: [{ name: "capped-1080p", height: 1080 }],
+  standard: [{ name: "low", height: 360 }, { name: "medium", height: 540 }, { name: "high", height: 1080 }]
+};
+
+/** Tallest height a connection of this many kbps can carry */
+export function heightForBandwidth(kbps: number): number {
+  return BANDWIDTH_LADDER.find(step => kbps >= step.kbps)?.height ?? 270;
+}
+
+/**
+ * Normalize what was passed to getPlaylist. A number is a maxHeight; a bandwidth hint lowers maxHeight when needed.
+ */
+export function normalizeRenditionRequest(resolution?: number | RenditionRequest | null): RenditionRequest {
+  const request: RenditionRequest = typeof resolution === "number" ? { maxHeight: resolution } : { ...resolution };
+  if (request.bandwidthKbps) {
+    const cap = heightForBandwidth(request.bandwidthKbps);
+    request.maxHeight = request.maxHeight ? Math.min(request.maxHeight, cap) : cap;
+  }
+  return request;
+}
+
+/**
+ * Pick the tallest rendition within maxHeight, or the shortest one when all are taller.
+ * Without a maxHeight the tallest rendition wins.
+ */
+export function pickRendition<T extends { height: number }>(renditions: T[], request: RenditionRequest): { rendition: T; match: RenditionMatch } {
+  const sorted = [...renditions].sort((a, b) => b.height - a.height);
+  if (!request.maxHeight) return { rendition: sorted[0], match: "requested" };
+  const fitting = sorted.find(r => r.height <= request.maxHeight!);
+  return fitting ? { rendition: fitting, match: "requested" } : { rendition: sorted[sorted.length - 1], match: "closest" };
+}
+
+function delivery(url: string): ContentFileRendition["delivery"] {
+  return /\.m3u8(\?|#|$)/i.test(url) ? "stream" : "download";
+}
+
+/** For providers with a single rendition per file; keeps a rendition the file already reports */
+export function fixedRendition(file: ContentFile): ContentFile {
+  return file.rendition ? file : { ...file, rendition: { delivery: delivery(file.url), match: "fixed" } };
+}
+
+/** For providers that passed the request to their source; keeps a rendition the source already reported */
+export function upstreamRendition(file: ContentFile): ContentFile {
+  return file.rendition ? file : { ...file, rendition: { delivery: delivery(file.url), match: "upstream" } };
+}
+
+/**
+ * Choose between a Mux asset's static MP4s and its HLS stream (capped with max_resolution).
+ * "stream" requests play the HLS stream; everything else plays an MP4, which is also set as downloadUrl.
+ */
+export function muxRendition(file: ContentFile, request: RenditionRequest, mp4Support: MuxMp4Support = "capped"): ContentFile {
+  if (!file.muxPlaybackId) return fixedRendition(file);
+  const mp4 = pickRendition(MUX_MP4_RENDITIONS[mp4Support], request);
+  const downloadUrl = mux.mp4Url(file.muxPlaybackId, mp4.rendition.name);
+
+  if (request.prefer === "stream") {
+    if (!request.maxHeight) return { ...file, url: mux.hlsUrl(file.muxPlaybackId), streamUrl: mux.hlsUrl(file.muxPlaybackId), downloadUrl, rendition: { delivery: "stream", match: "requested" } };
+    const stream = pickRendition(MUX_STREAM_HEIGHTS.map(height => ({ height })), request);
+    const streamUrl = mux.hlsUrl(file.muxPlaybackId, { maxResolution: stream.rendition.height });
+    return { ...file, url: streamUrl, streamUrl, downloadUrl, rendition: { delivery: "stream", height: stream.rendition.height, match: stream.match } };
+  }
+
+  return { ...file, url: downloadUrl, downloadUrl, rendition: { delivery: "download", height: mp4.rendition.height, match: mp4.match } };
+}
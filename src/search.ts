@@ -0,0 +1,100 @@
+/**
+ * In-memory search over provider catalogs.
+ * Providers build a SearchIndex from their bundled data or from folders gathered with
+ * collectFolders, then query it. collectFolders requests every listing; providers that crawl pass a browse
+ * function backed by a cache so repeated searches reuse the listings.
+ */
+
+import type { ContentItem, ContentProviderAuthData, SearchOptions } from "./interfaces";
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+
+interface SearchEntry {
+  item: ContentItem;
+  title: string;
+  keywords: string;
+}
+
+function normalize(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+export class SearchIndex {
+  private readonly entries: SearchEntry[] = [];
+
+  /**
+   * Add an item. Keywords (e.g. parent folder names, descriptions) are matched but weigh less than the title.
+   */
+  add(item: ContentItem, keywords: (string | undefined)[] = []): void {
+    this.entries.push({ item, title: normalize(item.title || ""), keywords: normalize(keywords.filter(Boolean).join(" ")) });
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Items whose title or keywords contain every query term, best matches first.
+   */
+  search(query: string, options: SearchOptions = {}): ContentItem[] {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+    const phrase = terms.join(" ");
+
+    const scored: { item: ContentItem; score: number }[] = [];
+    for (const entry of this.entries) {
+      if (options.type && entry.item.type !== options.type) continue;
+
+      let score = 0;
+      let matched = true;
+      for (const term of terms) {
+        if (entry.title.includes(term)) score += new RegExp(`(^|[^a-z0-9])${term}`).test(entry.title) ? 10 : 5;
+        else if (entry.keywords.includes(term)) score += 1;
+        else { matched = false; break; }
+      }
+      if (!matched) continue;
+
+      if (entry.title === phrase) score += 100;
+      else if (entry.title.startsWith(phrase)) score += 50;
+      scored.push({ item: entry.item, score });
+    }
+
+    scored.sort((a, b) => b.score - a.score || a.item.title.localeCompare(b.item.title));
+    return scored.slice(0, options.limit ?? DEFAULT_SEARCH_LIMIT).map(s => s.item);
+  }
+}
+
+/**
+ * Walk a provider's folder tree breadth-first and return every item found within maxDepth levels below path.
+ * Leaf folders are not opened unless followLeaves is set, since their contents are usually media.
+ * Each entry carries the titles of its ancestors so they can be used as search keywords.
+ */
+export async function collectFolders(browse: (path: string, auth?: ContentProviderAuthData | null) => Promise<ContentItem[]>, path: string, options: { maxDepth: number; followLeaves?: boolean }, auth?: ContentProviderAuthData | null): Promise<{ item: ContentItem; ancestors: string[] }[]> {
+  const results: { item: ContentItem; ancestors: string[] }[] = [];
+  let level: { path: string; ancestors: string[] }[] = [{ path, ancestors: [] }];
+
+  for (let depth = 0; depth < options.maxDepth && level.length > 0; depth++) {
+    const children = await Promise.all(level.map(async folder => ({ folder, items: await browse(folder.path, auth) })));
+    const next: { path: string; ancestors: string[] }[] = [];
+    for (const { folder, items } of children) {
+      for (const item of items) {
+        results.push({ item: item.type === "file" ? { ...item, path: folder.path } : item, ancestors: folder.ancestors });
+        if (item.type === "folder" && (!item.isLeaf || options.followLeaves)) next.push({ path: item.path, ancestors: [...folder.ancestors, item.title] });
+      }
+    }
+    level = next;
+  }
+
+  return results;
+}
+
+/** Build an index from collectFolders output, using ancestor titles as keywords */
+export function indexCollected(collected: { item: ContentItem; ancestors: string[] }[]): SearchIndex {
+  const index = new SearchIndex();
+  for (const { item, ancestors } of collected) index.add(item, ancestors);
+  return index;
+}
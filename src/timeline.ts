@@ -0,0 +1,107 @@
+/**
+ * Turn instructions into a schedule: each item's start and end, section totals and a running clock.
+ */
+
+import type { Instructions, InstructionItem } from "./interfaces";
+import { estimateItemDuration, getDurationProfile, type DurationEstimationConfig, type DurationProfile, type DurationSource } from "./durationUtils";
+import { generatePath } from "./instructionPathUtils";
+
+export interface TimelineOptions {
+  /** When the first item starts (default: now) */
+  startTime?: Date | string | number;
+  /** Planned length in seconds; a longer timeline gets an overrun warning */
+  targetSeconds?: number;
+  /** Profile for the estimates used when an item has no seconds (default: the default duration profile) */
+  profile?: string | DurationProfile;
+  /** Overrides on top of the profile */
+  config?: Partial<DurationEstimationConfig>;
+}
+
+/** Where an item's duration came from; see DurationSource */
+export type TimelineDurationSource = DurationSource;
+
+export interface TimelineEntry {
+  item: InstructionItem;
+  path: string;
+  depth: number;
+  seconds: number;
+  source: TimelineDurationSource;
+  /** Seconds from the start of the timeline (the running clock) */
+  startOffset: number;
+  endOffset: number;
+  start: Date;
+  end: Date;
+}
+
+export interface TimelineSection {
+  entry: TimelineEntry;
+  label: string;
+  seconds: number;
+}
+
+export interface Timeline {
+  name?: string;
+  start: Date;
+  end: Date;
+  totalSeconds: number;
+  /** Items in walk order (parents before their children) */
+  entries: TimelineEntry[];
+  /** Section items (section, header, lessonSection, providerSection) with their totals */
+  sections: TimelineSection[];
+  targetSeconds?: number;
+  /** Seconds beyond targetSeconds; 0 when on time or no target was given */
+  overrunSeconds: number;
+  warnings: string[];
+}
+
+const SECTION_TYPES = ["section", "header", "lessonSection", "providerSection"];
+
+/** Format seconds as a clock: "4:05", "52:00", "1:02:05" */
+export function formatClock(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * Build a timeline. Items run one after another; a parent spans its children, or its own seconds when
+ * the provider set them. Missing leaf durations are estimated from the duration profile.
+ */
+export function buildTimeline(instructions: Instructions, options: TimelineOptions = {}): Timeline {
+  const config = { ...getDurationProfile(options.profile), ...options.config };
+  const startMs = options.startTime !== undefined ? new Date(options.startTime).getTime() : Date.now();
+  const at = (offset: number) => new Date(startMs + offset * 1000);
+  const entries: TimelineEntry[] = [];
+
+  const layout = (items: InstructionItem[], indices: number[], offset: number): number => {
+    let clock = offset;
+    items.forEach((item, i) => {
+      const position = [...indices, i];
+      const entry: TimelineEntry = { item, path: generatePath(position), depth: indices.length, seconds: 0, source: "unknown", startOffset: clock, endOffset: clock, start: at(clock), end: at(clock) };
+      entries.push(entry);
+
+      const childSeconds = item.children?.length ? layout(item.children, position, clock) - clock : 0;
+      if (item.seconds && item.seconds > 0) Object.assign(entry, { seconds: item.seconds, source: "provided" });
+      else if (item.children?.length) Object.assign(entry, { seconds: childSeconds, source: "children" });
+      else Object.assign(entry, estimateItemDuration(item, config));
+
+      clock += entry.seconds;
+      entry.endOffset = clock;
+      entry.end = at(clock);
+    });
+    return clock;
+  };
+
+  const totalSeconds = layout(instructions?.items || [], [], 0);
+  const sections = entries.filter(e => SECTION_TYPES.includes(e.item.itemType || "")).map(entry => ({ entry, label: entry.item.label || "Section", seconds: entry.seconds }));
+  const overrunSeconds = options.targetSeconds !== undefined ? Math.max(0, totalSeconds - options.targetSeconds) : 0;
+
+  const warnings: string[] = [];
+  if (overrunSeconds > 0) warnings.push(`Runs ${formatClock(totalSeconds)}, ${formatClock(overrunSeconds)} over the ${formatClock(options.targetSeconds!)} target`);
+  const unknown = entries.filter(e => e.source === "unknown" && !e.item.children?.length).length;
+  if (unknown > 0) warnings.push(unknown === 1 ? "1 item has no duration and counts as 0:00" : `${unknown} items have no duration and count as 0:00`);
+
+  return { name: instructions?.name, start: at(0), end: at(totalSeconds), totalSeconds, entries, sections, targetSeconds: options.targetSeconds, overrunSeconds, warnings };
+}
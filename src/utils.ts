@@ -1,4 +1,7 @@
-import { ContentFolder, ContentFile } from "./interfaces";
+import { ContentFolder, ContentFile, MediaType, Plan, RecentPlan } from "./interfaces";
+import { MuxHelper } from "./helpers/MuxHelper";
+
+const mux = new MuxHelper();
 
 export function slugify(text: string): string {
   return text
@@ -7,16 +10,113 @@ export function slugify(text: string): string {
     .replace(/^-|-$/g, "");
 }
 
-export function detectMediaType(url: string, explicitType?: string): "video" | "image" {
-  if (explicitType === "video") return "video";
-  const videoPatterns = [".mp4", ".webm", ".m3u8", ".mov", "stream.mux.com"];
-  return videoPatterns.some(p => url.includes(p)) ? "video" : "image";
+/** FNV-1a hash as 8 hex characters; used for deterministic ids */
+export function hashString(value: string, seed: number = 0x811c9dc5): string {
+  let h = seed;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * "extended" reports every MediaType; "legacy" is for consumers that only handle video and image:
+ * audio becomes video (media players handle it) and everything else becomes image, as before.
+ */
+export type MediaTypeMode = "extended" | "legacy";
+
+export function toLegacyMediaType(type: MediaType): "video" | "image" {
+  return type === "video" || type === "audio" ? "video" : "image";
+}
+
+/** Copy of a playlist or plan whose files only use video and image */
+export function withLegacyMediaTypes<T extends ContentFile[] | Plan>(data: T): T {
+  const legacy = (files: ContentFile[]) => files.map(file => ({ ...file, mediaType: toLegacyMediaType(file.mediaType) }));
+  if (Array.isArray(data)) return legacy(data) as T;
+  const plan = data as Plan;
+  return { ...plan, allFiles: legacy(plan.allFiles), sections: plan.sections.map(s => ({ ...s, presentations: s.presentations.map(p => ({ ...p, files: legacy(p.files) })) })) } as T;
+}
+
+const MEDIA_TYPES: MediaType[] = ["video", "image", "audio", "document", "text", "web"];
+
+const EXTENSION_TYPES: Record<string, MediaType> = {
+  mp4: "video", m4v: "video", mov: "video", webm: "video", mkv: "video", avi: "video", m3u8: "video",
+  jpg: "image", jpeg: "image", png: "image", gif: "image", webp: "image", bmp: "image", svg: "image", heic: "image", tif: "image", tiff: "image",
+  mp3: "audio", m4a: "audio", wav: "audio", aac: "audio", ogg: "audio", oga: "audio", flac: "audio",
+  pdf: "document", doc: "document", docx: "document", ppt: "document", pptx: "document", xls: "document", xlsx: "document", key: "document", pages: "document", rtf: "document", odt: "document", odp: "document",
+  txt: "text", md: "text", chordpro: "text", chopro: "text", cho: "text", onsong: "text",
+  html: "web", htm: "web"
+};
+
+const DOCUMENT_CONTENT_TYPES = ["application/pdf", "application/msword", "application/rtf", "application/vnd.ms-", "application/vnd.openxmlformats-officedocument", "application/vnd.oasis.opendocument", "application/vnd.apple.keynote", "application/vnd.apple.pages"];
+
+/** Media type for a MIME content type such as PCO's attachment content_type, or null when it says nothing useful */
+export function mediaTypeFromContentType(contentType: string): MediaType | null {
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  if (type === "application/vnd.apple.mpegurl" || type === "application/x-mpegurl") return "video";
+  if (type.startsWith("video/")) return "video";
+  if (type.startsWith("image/")) return "image";
+  if (type.startsWith("audio/")) return "audio";
+  if (type === "text/html" || type === "application/xhtml+xml") return "web";
+  if (type.startsWith("text/")) return "text";
+  if (DOCUMENT_CONTENT_TYPES.some(prefix => type.startsWith(prefix))) return "document";
+  return null;
+}
+
+/** Media type from a URL's extension (or a Mux stream or page URL), or null when the URL does not say */
+export function mediaTypeFromUrl(url: string): MediaType | null {
+  if (url.includes("stream.mux.com")) return "video";
+  let pathname = url;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    pathname = url.split(/[?#]/)[0];
+  }
+  const extension = pathname.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase();
+  if (extension && EXTENSION_TYPES[extension]) return EXTENSION_TYPES[extension];
+  // Embeds and pages (trailing slash or no path) rather than files
+  if (/^https?:/i.test(url) && (pathname.includes("/embed/") || pathname === "" || pathname.endsWith("/"))) return "web";
+  return null;
+}
+
+/**
+ * Media type from a provider's media type ("video", "audio"...) or a MIME content type ("application/pdf").
+ * A plain "image" says nothing, since several providers label everything as image.
+ */
+export function mediaTypeFromHint(hint?: string): MediaType | null {
+  if (!hint) return null;
+  if (hint.includes("/")) return mediaTypeFromContentType(hint);
+  const named = hint.toLowerCase() as MediaType;
+  return named !== "image" && MEDIA_TYPES.includes(named) ? named : null;
+}
+
+/**
+ * Detect a file's media type.
+ * @param url - File URL; its extension is the main signal
+ * @param hint - A provider's media type or a MIME content type; see mediaTypeFromHint
+ * Unknown files are reported as image.
+ */
+export function detectMediaType(url: string, hint?: string): MediaType {
+  return mediaTypeFromHint(hint) ?? mediaTypeFromUrl(url) ?? "image";
 }
 
 export function createFolder(id: string, title: string, path: string, thumbnail?: string, isLeaf?: boolean): ContentFolder {
   return { type: "folder", id, title, path, thumbnail, isLeaf };
 }
 
-export function createFile(id: string, title: string, url: string, options?: { mediaType?: "video" | "image"; thumbnail?: string; muxPlaybackId?: string; seconds?: number; loop?: boolean; loopVideo?: boolean; streamUrl?: string; }): ContentFile {
-  return { type: "file", id, title, url, mediaType: options?.mediaType ?? detectMediaType(url), thumbnail: options?.thumbnail, muxPlaybackId: options?.muxPlaybackId, seconds: options?.seconds, loop: options?.loop, loopVideo: options?.loopVideo, streamUrl: options?.streamUrl };
+/** A muxPlaybackId fills in a missing thumbnail and streamUrl */
+export function createFile(id: string, title: string, url: string, options?: { mediaType?: MediaType; thumbnail?: string; muxPlaybackId?: string; seconds?: number; loop?: boolean; loopVideo?: boolean; streamUrl?: string; }): ContentFile {
+  return mux.fillFile({ type: "file", id, title, url, mediaType: options?.mediaType ?? detectMediaType(url), thumbnail: options?.thumbnail, muxPlaybackId: options?.muxPlaybackId, seconds: options?.seconds, loop: options?.loop, loopVideo: options?.loopVideo, streamUrl: options?.streamUrl });
+}
+
+/**
+ * Most recent plans first, skipping plans scheduled more than a week ahead.
+ */
+export function selectRecentPlans(plans: RecentPlan[], limit: number = 10): RecentPlan[] {
+  const cutoff = Date.now() + 7 * 24 * 60 * 60 * 1000;
+  return plans
+    .filter(p => new Date(p.date).getTime() <= cutoff)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, limit);
 }
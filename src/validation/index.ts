@@ -0,0 +1,2 @@
+export { PlanSchema, InstructionsSchema, ContentFileSchema, type JsonSchema } from "./schemas";
+export { validatePlan, validateInstructions, validateContentFile, validatePlaylist, validateAgainstSchema, type ValidationIssue, type ValidationResult } from "./validate";
@@ -0,0 +1,144 @@
+/**
+ * JSON Schemas (draft 2020-12) for the data providers return. Each schema is self-contained so it can be
+ * published or handed to any JSON Schema validator; validatePlan and friends check against these same objects.
+ */
+
+/** The subset of JSON Schema used by the published schemas */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  enum?: readonly (string | number | boolean)[];
+  const?: string | number | boolean;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  minLength?: number;
+}
+
+const SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+/** URN namespace for the schema ids; they name the schemas and are not fetched from anywhere */
+const SCHEMA_BASE = "urn:churchapps:content-provider-helper";
+
+const contentFileDef: JsonSchema = {
+  type: "object",
+  required: ["type", "id", "title", "mediaType", "url"],
+  properties: {
+    type: { const: "file" },
+    id: { type: "string", minLength: 1 },
+    title: { type: "string" },
+    mediaType: { enum: ["video", "image", "audio", "document", "text", "web"] },
+    thumbnail: { type: "string" },
+    url: { type: "string", minLength: 1 },
+    downloadUrl: { type: "string" },
+    muxPlaybackId: { type: "string" },
+    decryptionKey: { type: "string" },
+    mediaId: { type: "string" },
+    pingbackUrl: { type: "string" },
+    seconds: { type: "number", minimum: 0 },
+    loop: { type: "boolean" },
+    loopVideo: { type: "boolean" },
+    streamUrl: { type: "string" },
+    providerData: { type: "object" },
+    path: { type: "string" },
+    rendition: {
+      type: "object",
+      required: ["delivery", "match"],
+      properties: {
+        delivery: { enum: ["download", "stream"] },
+        height: { type: "integer", minimum: 1 },
+        match: { enum: ["requested", "closest", "fixed", "upstream"] }
+      },
+      additionalProperties: false
+    }
+  },
+  additionalProperties: false
+};
+
+const instructionItemDef: JsonSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    itemType: { type: "string" },
+    relatedId: { type: "string" },
+    label: { type: "string" },
+    actionType: { type: "string" },
+    content: { type: "string" },
+    seconds: { type: "number", minimum: 0 },
+    children: { type: "array", items: { $ref: "#/$defs/InstructionItem" } },
+    downloadUrl: { type: "string" },
+    thumbnail: { type: "string" }
+  },
+  additionalProperties: false
+};
+
+export const ContentFileSchema: JsonSchema = {
+  $schema: SCHEMA_DIALECT,
+  $id: `${SCHEMA_BASE}:content-file`,
+  title: "ContentFile",
+  ...contentFileDef
+};
+
+export const PlanSchema: JsonSchema = {
+  $schema: SCHEMA_DIALECT,
+  $id: `${SCHEMA_BASE}:plan`,
+  title: "Plan",
+  type: "object",
+  required: ["id", "name", "sections", "allFiles"],
+  properties: {
+    id: { type: "string", minLength: 1 },
+    name: { type: "string" },
+    description: { type: "string" },
+    thumbnail: { type: "string" },
+    sections: { type: "array", items: { $ref: "#/$defs/PlanSection" } },
+    allFiles: { type: "array", items: { $ref: "#/$defs/ContentFile" } }
+  },
+  additionalProperties: false,
+  $defs: {
+    PlanSection: {
+      type: "object",
+      required: ["id", "name", "presentations"],
+      properties: {
+        id: { type: "string", minLength: 1 },
+        name: { type: "string" },
+        presentations: { type: "array", items: { $ref: "#/$defs/PlanPresentation" } }
+      },
+      additionalProperties: false
+    },
+    PlanPresentation: {
+      type: "object",
+      required: ["id", "name", "actionType", "files"],
+      properties: {
+        id: { type: "string", minLength: 1 },
+        name: { type: "string" },
+        actionType: { enum: ["play", "other"] },
+        files: { type: "array", items: { $ref: "#/$defs/ContentFile" } },
+        providerData: { type: "object" }
+      },
+      additionalProperties: false
+    },
+    ContentFile: contentFileDef
+  }
+};
+
+export const InstructionsSchema: JsonSchema = {
+  $schema: SCHEMA_DIALECT,
+  $id: `${SCHEMA_BASE}:instructions`,
+  title: "Instructions",
+  type: "object",
+  required: ["items"],
+  properties: {
+    name: { type: "string" },
+    items: { type: "array", items: { $ref: "#/$defs/InstructionItem" } }
+  },
+  additionalProperties: false,
+  $defs: {
+    InstructionItem: instructionItemDef
+  }
+};
@@ -0,0 +1,145 @@
+import type { Plan, Instructions, InstructionItem, ContentFile } from "../interfaces";
+import { PlanSchema, InstructionsSchema, ContentFileSchema, type JsonSchema } from "./schemas";
+
+export interface ValidationIssue {
+  /** JSON Pointer to the offending value ("" for the root, "/sections/0/presentations/1/files/0/url") */
+  path: string;
+  message: string;
+  /** Errors break the published schema; warnings are unknown fields or data that is valid but suspicious */
+  severity: "error" | "warning";
+}
+
+export interface ValidationResult {
+  /** True when there are no errors (warnings are allowed) */
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema["type"]>): boolean {
+  if (type === "integer") return typeof value === "number" && Number.isInteger(value);
+  if (type === "number") return typeof value === "number" && !isNaN(value);
+  return typeOf(value) === type;
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const name = ref.replace(/^#\/\$defs\//, "");
+  const schema = root.$defs?.[name];
+  if (!schema) throw new Error(`Unknown schema reference: ${ref}`);
+  return schema;
+}
+
+/**
+ * Check a value against one of the published schemas. Properties set to undefined count as absent,
+ * matching how they serialize to JSON. Unknown properties are reported as warnings.
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema): ValidationResult {
+  const issues: ValidationIssue[] = [];
+
+  const visit = (current: unknown, node: JsonSchema, path: string) => {
+    if (node.$ref) node = resolveRef(node.$ref, schema);
+
+    if (node.const !== undefined && current !== node.const) {
+      issues.push({ path, message: `Expected ${JSON.stringify(node.const)}, got ${JSON.stringify(current)}`, severity: "error" });
+      return;
+    }
+    if (node.enum && !node.enum.includes(current as string)) {
+      issues.push({ path, message: `Expected one of ${node.enum.map(v => JSON.stringify(v)).join(", ")}, got ${JSON.stringify(current)}`, severity: "error" });
+      return;
+    }
+    if (node.type && !matchesType(current, node.type)) {
+      issues.push({ path, message: `Expected ${node.type}, got ${typeOf(current)}`, severity: "error" });
+      return;
+    }
+
+    if (typeof current === "string" && node.minLength !== undefined && current.length < node.minLength) {
+      issues.push({ path, message: "Must not be empty", severity: "error" });
+    }
+    if (typeof current === "number" && node.minimum !== undefined && current < node.minimum) {
+      issues.push({ path, message: `Must be at least ${node.minimum}, got ${current}`, severity: "error" });
+    }
+
+    if (Array.isArray(current) && node.items) {
+      current.forEach((entry, i) => visit(entry, node.items!, `${path}/${i}`));
+    }
+
+    if (node.type === "object" && current && typeof current === "object" && !Array.isArray(current)) {
+      const record = current as Record<string, unknown>;
+      for (const key of node.required || []) {
+        if (record[key] === undefined) issues.push({ path: `${path}/${key}`, message: `Missing required property "${key}"`, severity: "error" });
+      }
+      for (const [key, entry] of Object.entries(record)) {
+        if (entry === undefined) continue;
+        const propertySchema = node.properties?.[key];
+        if (propertySchema) visit(entry, propertySchema, `${path}/${key}`);
+        else if (node.additionalProperties === false) issues.push({ path: `${path}/${key}`, message: `Unknown property "${key}"`, severity: "warning" });
+        else if (typeof node.additionalProperties === "object") visit(entry, node.additionalProperties, `${path}/${key}`);
+      }
+    }
+  };
+
+  visit(value, schema, "");
+  return { valid: !issues.some(i => i.severity === "error"), issues };
+}
+
+function withIssues(result: ValidationResult, extra: ValidationIssue[]): ValidationResult {
+  const issues = [...result.issues, ...extra];
+  return { valid: !issues.some(i => i.severity === "error"), issues };
+}
+
+export function validateContentFile(file: unknown): ValidationResult {
+  return validateAgainstSchema(file, ContentFileSchema);
+}
+
+/**
+ * Validate every file of a playlist; issue paths start with the file index ("/2/url").
+ */
+export function validatePlaylist(files: unknown): ValidationResult {
+  if (!Array.isArray(files)) return { valid: false, issues: [{ path: "", message: `Expected array, got ${typeOf(files)}`, severity: "error" }] };
+  const issues = files.flatMap((file, i) => validateContentFile(file).issues.map(issue => ({ ...issue, path: `/${i}${issue.path}` })));
+  return { valid: !issues.some(i => i.severity === "error"), issues };
+}
+
+/**
+ * Validate a Plan against PlanSchema. Also warns about presentation files missing from allFiles.
+ */
+export function validatePlan(plan: unknown): ValidationResult {
+  const result = validateAgainstSchema(plan, PlanSchema);
+  if (!result.valid) return result;
+
+  const data = plan as Plan;
+  const listed = new Set(data.allFiles.map(f => f.id));
+  const extra: ValidationIssue[] = [];
+  data.sections.forEach((section, s) => section.presentations.forEach((presentation, p) => presentation.files.forEach((file: ContentFile, f) => {
+    if (!listed.has(file.id)) extra.push({ path: `/sections/${s}/presentations/${p}/files/${f}`, message: `File "${file.id}" is missing from allFiles`, severity: "warning" });
+  })));
+  return withIssues(result, extra);
+}
+
+/**
+ * Validate Instructions against InstructionsSchema. Also warns about duplicate item ids,
+ * which make id-based paths ambiguous.
+ */
+export function validateInstructions(instructions: unknown): ValidationResult {
+  const result = validateAgainstSchema(instructions, InstructionsSchema);
+  if (!result.valid) return result;
+
+  const seen = new Map<string, string>();
+  const extra: ValidationIssue[] = [];
+  const visit = (items: InstructionItem[], path: string) => items.forEach((item, i) => {
+    const itemPath = `${path}/${i}`;
+    if (item.id) {
+      const first = seen.get(item.id);
+      if (first !== undefined) extra.push({ path: `${itemPath}/id`, message: `Duplicate id "${item.id}" (first used at ${first})`, severity: "warning" });
+      else seen.set(item.id, itemPath);
+    }
+    if (item.children) visit(item.children, `${itemPath}/children`);
+  });
+  visit((instructions as Instructions).items, "/items");
+  return withIssues(result, extra);
+}
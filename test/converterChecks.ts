@@ -0,0 +1,180 @@
+/**
+ * Property checks for the round-trip guarantees documented in FormatConverters. Random plans, instructions
+ * and playlists are generated from a seed, converted, and compared field by field.
+ * Run with `npm test`, or `npx tsx test/converterChecks.ts <seed>` to try another seed; the process exits
+ * with code 1 when any check fails.
+ */
+
+import type { ContentFile, Plan, Instructions, InstructionItem } from "../src/interfaces";
+import * as Converters from "../src/FormatConverters";
+
+interface RoundTripFailure {
+  property: string;
+  /** Run number; rerun with the same seed to reproduce */
+  run: number;
+  message: string;
+  input: unknown;
+}
+
+interface RoundTripReport {
+  runs: number;
+  checks: number;
+  failures: RoundTripFailure[];
+}
+
+type Random = () => number;
+
+/** mulberry32: small seeded generator so failures are reproducible */
+function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const WORDS = ["Welcome", "Worship", "Bible Story", "Memory Verse", "Game", "Prayer", "Offering", "Review", "Craft", "Closing"];
+
+function int(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<T>(random: Random, values: T[]): T {
+  return values[int(random, 0, values.length - 1)];
+}
+
+function chance(random: Random, probability: number = 0.5): boolean {
+  return random() < probability;
+}
+
+function randomFile(random: Random, n: number): ContentFile {
+  const video = chance(random);
+  const id = `file-${n}`;
+  const url = `https://cdn.example.com/${id}.${video ? "mp4" : "jpg"}`;
+  const file: ContentFile = { type: "file", id, title: `${pick(random, WORDS)} ${n}`, mediaType: video ? "video" : "image", url };
+  if (chance(random, 0.3)) file.downloadUrl = `https://download.example.com/${id}.${video ? "mp4" : "jpg"}`;
+  if (chance(random, 0.7)) file.seconds = int(random, 0, 600);
+  if (chance(random)) file.thumbnail = `https://cdn.example.com/${id}-thumb.jpg`;
+  if (video && chance(random, 0.3)) file.streamUrl = `https://stream.example.com/${id}.m3u8`;
+  if (chance(random, 0.2)) file.loop = true;
+  return file;
+}
+
+function randomPlaylist(random: Random): ContentFile[] {
+  return Array.from({ length: int(random, 0, 6) }, (_, i) => randomFile(random, i));
+}
+
+function randomPlan(random: Random, run: number): Plan {
+  let n = 0;
+  const sections = Array.from({ length: int(random, 1, 3) }, (_, s) => ({
+    id: `section-${s}`,
+    name: `${pick(random, WORDS)} Section`,
+    presentations: Array.from({ length: int(random, 1, 3) }, (_, p) => ({
+      id: `section-${s}-presentation-${p}`,
+      name: pick(random, WORDS),
+      actionType: chance(random, 0.7) ? "play" as const : "other" as const,
+      files: Array.from({ length: int(random, 0, 3) }, () => randomFile(random, n++))
+    }))
+  }));
+  return { id: `plan-${run}`, name: `Plan ${run}`, sections, allFiles: sections.flatMap(s => s.presentations.flatMap(p => p.files)) };
+}
+
+/** section > presentation ("action" or "item") > file trees; ids are sometimes left out and content repeated */
+function randomInstructions(random: Random, run: number): Instructions {
+  let n = 0;
+  const label = () => pick(random, WORDS.slice(0, 3));
+  const maybeId = (id: string) => (chance(random, 0.7) ? { id } : {});
+  const items: InstructionItem[] = Array.from({ length: int(random, 1, 3) }, (_, s) => ({
+    ...maybeId(`section-${s}`),
+    itemType: "section",
+    label: label(),
+    children: Array.from({ length: int(random, 1, 3) }, (_, p) => {
+      const files = Array.from({ length: int(random, 0, 2) }, () => {
+        const i = n++;
+        const url = `https://cdn.example.com/media-${i % 3}.${chance(random) ? "mp4" : "png"}`;
+        const file: InstructionItem = { ...maybeId(`file-${i}`), itemType: "file", label: label(), downloadUrl: url };
+        if (chance(random)) file.seconds = int(random, 1, 300);
+        if (chance(random)) file.thumbnail = `${url}.thumb.jpg`;
+        return file;
+      });
+      return { ...maybeId(`section-${s}-item-${p}`), itemType: chance(random) ? "action" : "item", label: label(), children: files };
+    })
+  }));
+  return { name: `Lesson ${run}`, items };
+}
+
+function fileFields(file: ContentFile) {
+  return { id: file.id, title: file.title, url: file.downloadUrl || file.url, seconds: file.seconds, thumbnail: file.thumbnail };
+}
+
+function planShape(plan: Plan) {
+  return plan.sections.map(section => ({ id: section.id, name: section.name, presentations: section.presentations.map(p => ({ id: p.id, name: p.name, actionType: p.actionType, files: p.files.map(fileFields) })) }));
+}
+
+function instructionShape(items: InstructionItem[] | undefined, originals?: InstructionItem[]): unknown[] {
+  return (items || []).map((item, i) => {
+    const original = originals?.[i];
+    // Ids the original did not have are generated, so only compare ids that existed
+    const isFile = item.itemType === "file";
+    return { id: original && !original.id ? undefined : item.id, itemType: item.itemType, label: item.label, ...(isFile ? { seconds: item.seconds, downloadUrl: item.downloadUrl, thumbnail: item.thumbnail } : {}), children: instructionShape(item.children, original?.children) };
+  });
+}
+
+function collectIds(plan: Plan): string[] {
+  return plan.sections.flatMap(s => [s.id, ...s.presentations.flatMap(p => [p.id, ...p.files.map(f => f.id)])]);
+}
+
+/**
+ * Check the LOSSLESS round-trip guarantees and deterministic ids on generated inputs.
+ * @param options.runs - Number of random inputs per property (default: 100)
+ * @param options.seed - Seed for the generator (default: 1)
+ */
+function verifyConverterRoundTrips(options: { runs?: number; seed?: number } = {}): RoundTripReport {
+  const runs = options.runs ?? 100;
+  const random = createRandom(options.seed ?? 1);
+  const failures: RoundTripFailure[] = [];
+  let checks = 0;
+
+  const expectEqual = (property: string, run: number, input: unknown, expected: unknown, actual: unknown) => {
+    checks++;
+    const a = JSON.stringify(expected);
+    const b = JSON.stringify(actual);
+    if (a !== b) failures.push({ property, run, message: `Expected ${a} but got ${b}`, input });
+  };
+
+  for (let run = 0; run < runs; run++) {
+    const plan = randomPlan(random, run);
+    expectEqual("plan -> playlist keeps every file", run, plan, plan.allFiles, Converters.presentationsToPlaylist(plan));
+    const planBack = Converters.instructionsToPresentations(Converters.presentationsToExpandedInstructions(plan), plan.id);
+    expectEqual("plan -> instructions -> plan", run, plan, planShape(plan), planShape(planBack));
+
+    const instructions = randomInstructions(random, run);
+    const converted = Converters.instructionsToPresentations(instructions);
+    const instructionsBack = Converters.presentationsToExpandedInstructions(converted);
+    expectEqual("instructions -> plan -> instructions", run, instructions, instructionShape(instructions.items), instructionShape(instructionsBack.items, instructions.items));
+    expectEqual("instructions -> plan is deterministic", run, instructions, converted, Converters.instructionsToPresentations(instructions));
+    expectEqual("instructions -> playlist is deterministic", run, instructions, Converters.instructionsToPlaylist(instructions), Converters.instructionsToPlaylist(instructions));
+    const ids = collectIds(converted);
+    expectEqual("generated ids are unique", run, instructions, ids.length, new Set(ids).size);
+
+    const playlist = randomPlaylist(random);
+    expectEqual("playlist -> plan -> playlist", run, playlist, playlist, Converters.presentationsToPlaylist(Converters.playlistToPresentations(playlist)));
+    expectEqual("playlist -> plan is deterministic", run, playlist, Converters.playlistToPresentations(playlist), Converters.playlistToPresentations(playlist));
+    expectEqual("playlist -> instructions -> playlist", run, playlist, playlist.map(fileFields), Converters.instructionsToPlaylist(Converters.playlistToInstructions(playlist)).map(fileFields));
+  }
+
+  return { runs, checks, failures };
+}
+
+function main(): void {
+  const seed = Number(process.argv[2] ?? 1);
+  const { runs, checks, failures } = verifyConverterRoundTrips({ runs: 500, seed });
+  failures.forEach((failure) => console.error(`FAIL ${failure.property} (run ${failure.run}): ${failure.message}\n  input: ${JSON.stringify(failure.input)}`));
+  console.log(`Converter round trips: ${checks - failures.length}/${checks} checks passed over ${runs} runs (seed ${seed})`);
+  if (failures.length > 0) process.exitCode = 1;
+}
+
+main();
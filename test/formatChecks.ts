@@ -0,0 +1,212 @@
+/**
+ * Fixture checks for the hand-written binary formats: the ZIP writer behind the OpenLP and ProPresenter packages,
+ * the PDF writer behind run sheets, and the MP4 and HLS readers behind duration probing.
+ * Each check builds or parses a small known input and reads the result back independently of the writer.
+ * Run with `npm test`; the process exits with code 1 when any check fails.
+ */
+
+import { createZip, ZipWriter } from "../src/exporters/zip";
+import { PdfWriter, readJpeg } from "../src/exporters/pdf";
+import { readMp4Duration, parseHlsPlaylist } from "../src/mediaProbe";
+
+interface FormatCheckFailure {
+  format: string;
+  check: string;
+  message: string;
+}
+
+type Check = (check: string, actual: unknown, expected: unknown) => void;
+
+const encoder = new TextEncoder();
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+/** Read a stored ZIP archive through its central directory, the way unzip does */
+function checkZip(expect: Check): void {
+  const pangram = encoder.encode("The quick brown fox jumps over the lazy dog");
+  const large = new Uint8Array(70000).map((_, i) => (i * 31) & 0xff);
+  const entries = [{ name: "a.txt", data: pangram }, { name: "media/é clip.bin", data: large }, { name: "empty", data: new Uint8Array(0) }];
+  const zip = createZip(entries, new Date(2024, 5, 15, 10, 30, 42));
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+
+  const end = zip.length - 22;
+  expect("end of central directory signature", view.getUint32(end, true), 0x06054b50);
+  expect("entry count", view.getUint16(end + 10, true), entries.length);
+  const centralSize = view.getUint32(end + 12, true);
+  const centralOffset = view.getUint32(end + 16, true);
+  expect("central directory ends at the end record", centralOffset + centralSize, end);
+
+  let at = centralOffset;
+  entries.forEach((entry, i) => {
+    expect(`entry ${i} central signature`, view.getUint32(at, true), 0x02014b50);
+    const nameLength = view.getUint16(at + 28, true);
+    const name = new TextDecoder().decode(zip.subarray(at + 46, at + 46 + nameLength));
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 24, true);
+    const localOffset = view.getUint32(at + 42, true);
+    expect(`entry ${i} name`, name, entry.name);
+    expect(`entry ${i} size`, size, entry.data.length);
+    expect(`entry ${i} DOS date`, view.getUint16(at + 14, true), ((2024 - 1980) << 9) | (6 << 5) | 15);
+
+    expect(`entry ${i} local signature`, view.getUint32(localOffset, true), 0x04034b50);
+    expect(`entry ${i} local crc`, view.getUint32(localOffset + 14, true), crc);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    expect(`entry ${i} data`, sameBytes(zip.subarray(dataStart, dataStart + size), entry.data), true);
+    at += 46 + nameLength;
+  });
+
+  // Published CRC-32 check values
+  const crcAt = (i: number) => {
+    let offset = centralOffset;
+    for (let n = 0; n < i; n++) offset += 46 + view.getUint16(offset + 28, true);
+    return view.getUint32(offset + 16, true);
+  };
+  expect("crc32 of the pangram", crcAt(0), 0x414fa339);
+  expect("crc32 of an empty file", crcAt(2), 0);
+
+  // No ZIP64: the 16-bit entry count must not wrap around
+  const writer = new ZipWriter();
+  let limit = "";
+  try {
+    for (let i = 0; i <= 0xffff; i++) writer.add({ name: `${i}`, data: new Uint8Array(0) });
+  } catch (error) {
+    limit = error instanceof Error ? error.message : String(error);
+  }
+  expect("more than 65535 entries throws", limit, "ZIP archives are limited to 65535 entries");
+}
+
+/** One character per byte, so string offsets are byte offsets */
+function latin1(bytes: Uint8Array): string {
+  let text = "";
+  for (let i = 0; i < bytes.length; i++) text += String.fromCharCode(bytes[i]);
+  return text;
+}
+
+/** JPEG header fixture: SOI, an APP0 segment to skip, then a frame header for width x height */
+function jpegHeader(marker: number, width: number, height: number, components: number): Uint8Array {
+  return new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, marker, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, components, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+}
+
+/** Follow the trailer, the xref table and every stream length the way a PDF reader does */
+function checkPdf(expect: Check): void {
+  expect("baseline JPEG size", JSON.stringify(readJpeg(jpegHeader(0xc0, 640, 480, 3)), ["width", "height", "components"]), JSON.stringify({ width: 640, height: 480, components: 3 }));
+  expect("progressive grayscale JPEG size", readJpeg(jpegHeader(0xc2, 300, 20, 1))?.width, 300);
+  expect("CMYK JPEG is rejected", readJpeg(jpegHeader(0xc0, 10, 10, 4)), null);
+  expect("PNG is rejected", readJpeg(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0, 0, 0, 0, 0])), null);
+
+  const pdf = new PdfWriter();
+  const image = readJpeg(jpegHeader(0xc0, 64, 32, 3))!;
+  pdf.text(72, 720, "Welcome (part 1) \\ “Worship” – 10 min", { font: "bold", size: 14 });
+  pdf.image(image, 72, 600, 64, 32);
+  pdf.addPage();
+  pdf.line(72, 700, 540, 700);
+  pdf.image(image, 72, 500, 128, 64);
+  const text = latin1(pdf.toBytes());
+
+  expect("header", text.startsWith("%PDF-1.4\n"), true);
+  expect("ends with %%EOF", text.endsWith("%%EOF\n"), true);
+  const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1]);
+  expect("startxref points at the xref table", text.slice(startxref, startxref + 5), "xref\n");
+  const [, first, count] = text.slice(startxref).match(/^xref\n(\d+) (\d+)\n/) || [];
+  expect("xref starts at object 0", first, "0");
+  expect("trailer size matches the xref table", text.match(/\/Size (\d+)/)?.[1], count);
+
+  const table = text.slice(startxref).split("\n").slice(2, 2 + Number(count));
+  expect("object 0 is free", table[0], "0000000000 65535 f ");
+  table.slice(1).forEach((line, i) => {
+    const id = i + 1;
+    const offset = Number(line.slice(0, 10));
+    expect(`xref entry ${id} is 20 bytes`, line.length + 1, 20);
+    expect(`object ${id} starts at its xref offset`, text.slice(offset, offset + `${id} 0 obj`.length), `${id} 0 obj`);
+    const body = text.slice(offset, text.indexOf("endobj", offset));
+    const length = body.match(/\/Length (\d+)/)?.[1];
+    if (length) {
+      const start = body.indexOf("stream\n") + 7;
+      expect(`object ${id} stream length`, body.slice(start + Number(length), start + Number(length) + 10), "\nendstream");
+    }
+  });
+
+  expect("page count", text.match(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/)?.[1], "2");
+  expect("one image object for a reused image", text.match(/\/Subtype \/Image/g)?.length, 1);
+  expect("escaped text", text.includes("(Welcome \\(part 1\\) \\\\ \x93Worship\x94 \x96 10 min) Tj"), true);
+
+  const unsupported = new PdfWriter();
+  unsupported.addPage();
+  unsupported.text(72, 720, "Ωmega – café 🎉");
+  expect("characters outside WinAnsi are listed", unsupported.replacedCharacters.join(" "), "Ω 🎉");
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function uint64(value: number): number[] {
+  return [...uint32(Math.floor(value / 0x100000000)), ...uint32(value >>> 0)];
+}
+
+function box(type: string, ...payload: number[][]): number[] {
+  const body = payload.flat();
+  return [...uint32(8 + body.length), ...Array.from(encoder.encode(type)), ...body];
+}
+
+/** mvhd with the given timescale and duration; version 1 stores 64-bit times */
+function mvhd(version: 0 | 1, timescale: number, duration: number): number[] {
+  const times = version === 1 ? [...uint64(0), ...uint64(0), ...uint32(timescale), ...uint64(duration)] : [...uint32(0), ...uint32(0), ...uint32(timescale), ...uint32(duration)];
+  return box("mvhd", [version, 0, 0, 0], times, new Array(80).fill(0));
+}
+
+/** MP4 box trees with known durations, including a 64-bit box size and a fragmented file */
+function checkMp4(expect: Check): void {
+  const ftyp = box("ftyp", Array.from(encoder.encode("isom")), uint32(512));
+  const largeMdat = [...uint32(1), ...Array.from(encoder.encode("mdat")), ...uint64(16 + 4096), ...new Array(4096).fill(0)];
+
+  expect("mvhd version 0", readMp4Duration(new Uint8Array([...ftyp, ...box("moov", mvhd(0, 1000, 12345))])), 12.345);
+  expect("mvhd version 1 after a 64-bit mdat", readMp4Duration(new Uint8Array([...ftyp, ...largeMdat, ...box("moov", mvhd(1, 0x100000, 3 * 0x100000000))])), 12288);
+  expect("fragmented file uses mehd", readMp4Duration(new Uint8Array([...ftyp, ...box("moov", mvhd(0, 90000, 0), box("mvex", box("mehd", [0, 0, 0, 0], uint32(90000 * 95))))])), 95);
+  const complete = [...ftyp, ...box("moov", mvhd(0, 1000, 12345))];
+  expect("truncated moov", readMp4Duration(new Uint8Array(complete.slice(0, complete.length - 10))), null);
+  expect("no moov", readMp4Duration(new Uint8Array([...ftyp, ...largeMdat])), null);
+}
+
+/** HLS playlists with known durations and variants */
+function checkHls(expect: Check): void {
+  const media = "#EXTM3U\n#EXT-X-TARGETDURATION:4\n#EXTINF:4.0,\na.ts\n#EXTINF:4.000,\nb.ts\n#EXTINF:2.5,\nc.ts\n#EXT-X-ENDLIST\n";
+  expect("media playlist", parseHlsPlaylist(media).seconds, 10.5);
+  expect("CRLF line endings", parseHlsPlaylist(media.replace(/\n/g, "\r\n")).seconds, 10.5);
+  expect("VOD playlist type", parseHlsPlaylist("#EXTM3U\n#EXT-X-PLAYLIST-TYPE:VOD\n#EXTINF:6.006,\na.ts\n").seconds, 6.006);
+  expect("live playlist has no duration", parseHlsPlaylist(media.replace("#EXT-X-ENDLIST\n", "")).seconds, null);
+
+  const master = parseHlsPlaylist("#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=800000\nlow/index.m3u8\n#EXT-X-STREAM-INF:BANDWIDTH=3000000\n\nhttps://cdn.example.com/high.m3u8\n", "https://stream.example.com/v/master.m3u8");
+  expect("master playlist has no duration", master.seconds, null);
+  expect("relative variant", master.variants[0], "https://stream.example.com/v/low/index.m3u8");
+  expect("absolute variant", master.variants[1], "https://cdn.example.com/high.m3u8");
+}
+
+function main(): void {
+  const failures: FormatCheckFailure[] = [];
+  let checks = 0;
+  const run = (format: string, verify: (expect: Check) => void) => {
+    const expect: Check = (check, actual, expected) => {
+      checks++;
+      if (actual !== expected) failures.push({ format, check, message: `Expected ${String(expected)} but got ${String(actual)}` });
+    };
+    try {
+      verify(expect);
+    } catch (error) {
+      failures.push({ format, check: "no exception", message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  run("zip", checkZip);
+  run("pdf", checkPdf);
+  run("mp4", checkMp4);
+  run("hls", checkHls);
+
+  failures.forEach((failure) => console.error(`FAIL ${failure.format}: ${failure.check} - ${failure.message}`));
+  console.log(`File formats: ${checks - failures.length}/${checks} checks passed`);
+  if (failures.length > 0) process.exitCode = 1;
+}
+
+main();